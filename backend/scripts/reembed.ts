@@ -0,0 +1,158 @@
+#!/usr/bin/env tsx
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { config } from '../src/config/config';
+import { EmbeddingService } from '../src/services/embeddings';
+import { QueryCache } from '../src/services/queryCache';
+import { createVectorStoreAdapter, EmbeddingSpec, isVersionedAdapter } from '../src/services/vectorStores';
+import { logger } from '../src/utils/logger';
+
+/**
+ * Re-embeds every stored chunk with the configured embeddings provider into
+ * a new versioned collection, then atomically serves it under the configured
+ * collection name. Progress is checkpointed after each batch, so an
+ * interrupted run picks up where it stopped.
+ *
+ *   npm run reembed [-- --batch-size=100] [-- --restart] [-- --replace-collection]
+ */
+
+interface MigrationState {
+  source: string;
+  target: string;
+  embedding: EmbeddingSpec;
+  processed: number; // documents already written to the target
+  lastId: string | null; // last document written, in the source's id order
+  startedAt: string;
+  updatedAt: string;
+}
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// rag_documents -> rag_documents_v2 -> rag_documents_v3 ...
+function nextVersion(collection: string): string {
+  const match = collection.match(/^(.*)_v(\d+)$/);
+  return match ? `${match[1]}_v${parseInt(match[2]) + 1}` : `${collection}_v2`;
+}
+
+async function loadState(statePath: string): Promise<MigrationState | null> {
+  try {
+    return JSON.parse(await fs.readFile(statePath, 'utf8')) as MigrationState;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function saveState(statePath: string, state: MigrationState): Promise<void> {
+  await fs.mkdir(path.dirname(statePath), { recursive: true });
+  const tempPath = `${statePath}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(state, null, 2));
+  await fs.rename(tempPath, statePath);
+}
+
+interface ReembedOptions {
+  batchSize: number;
+  restart: boolean; // discard an unfinished migration
+  replaceCollection: boolean; // allow deleting a plain Qdrant collection to alias its name
+}
+
+async function reembed({ batchSize, restart, replaceCollection }: ReembedOptions): Promise<void> {
+  const adapter = createVectorStoreAdapter(config.vectorStore.type);
+  if (!isVersionedAdapter(adapter)) {
+    throw new Error(`The ${adapter.name} vector store cannot swap collections; re-run ingestion instead`);
+  }
+  await adapter.connect();
+
+  const embedding: EmbeddingSpec = {
+    model: EmbeddingService.model,
+    dimensions: await EmbeddingService.getDimensions(),
+  };
+
+  const statePath = path.resolve('data', `reembed-${adapter.name}.json`);
+  let state = restart ? null : await loadState(statePath);
+
+  if (state && state.embedding.model !== embedding.model) {
+    throw new Error(
+      `An unfinished migration to ${state.embedding.model} exists at ${statePath}; ` +
+      'pass --restart to discard it'
+    );
+  }
+
+  if (state) {
+    logger.info(`Resuming migration ${state.source} -> ${state.target} after ${state.processed} documents`);
+  } else {
+    const source = await adapter.resolveCollection();
+    const now = new Date().toISOString();
+    state = {
+      source,
+      target: nextVersion(source),
+      embedding,
+      processed: 0,
+      lastId: null,
+      startedAt: now,
+      updatedAt: now,
+    };
+    await saveState(statePath, state);
+    logger.info(`Starting migration ${state.source} -> ${state.target} (${embedding.model}, ${embedding.dimensions} dims)`);
+  }
+
+  const source = adapter.forCollection(state.source);
+  await source.connect();
+
+  const target = adapter.forCollection(state.target);
+  await target.initialize(embedding);
+  if (state.processed === 0) {
+    // Leftovers from an abandoned run would otherwise survive the swap
+    await target.clear();
+  }
+
+  // Documents come in id order, so everything up to lastId is already in the target
+  for await (const batch of source.scroll(batchSize, state.lastId ?? undefined)) {
+    const embeddings = await EmbeddingService.generateEmbeddings(batch.map(doc => doc.content));
+    await target.upsert(batch, embeddings);
+
+    state.processed += batch.length;
+    state.lastId = batch[batch.length - 1].id;
+    state.updatedAt = new Date().toISOString();
+    await saveState(statePath, state);
+    logger.info(`Re-embedded ${state.processed} documents`);
+  }
+
+  const previous = await adapter.promoteCollection(state.target, { replaceCollection });
+  await QueryCache.invalidate();
+  await fs.rm(statePath, { force: true });
+
+  logger.info(`Migration complete: ${state.processed} documents now served from ${state.target}`, {
+    previousCollection: previous ?? 'deleted',
+  });
+}
+
+// CLI execution
+async function main() {
+  const args = process.argv.slice(2);
+  const batchSizeArg = args.find(arg => arg.startsWith('--batch-size='));
+  const batchSize = batchSizeArg ? parseInt(batchSizeArg.split('=')[1]) : DEFAULT_BATCH_SIZE;
+
+  try {
+    if (!(batchSize > 0)) {
+      throw new Error(`Invalid --batch-size: ${batchSizeArg}`);
+    }
+    await reembed({
+      batchSize,
+      restart: args.includes('--restart'),
+      replaceCollection: args.includes('--replace-collection'),
+    });
+    process.exit(0);
+  } catch (error) {
+    logger.error('Re-embedding migration failed:', error);
+    process.exit(1);
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main();
+}
+
+export { reembed };
@@ -10,13 +10,14 @@ const configSchema = z.object({
   // Redis Configuration
   redis: z.object({
     url: z.string().default('redis://localhost:6379'),
+    store: z.enum(['auto', 'redis', 'memory']).default('auto'), // auto falls back to memory without Redis
     sessionTtl: z.number().default(7 * 24 * 60 * 60), // 7 days in seconds
     queryTtl: z.number().default(60 * 60), // 1 hour in seconds
   }),
 
   // Vector Store Configuration
   vectorStore: z.object({
-    type: z.enum(['qdrant', 'chroma']).default('qdrant'),
+    type: z.enum(['qdrant', 'chroma', 'memory', 'pgvector']).default('qdrant'),
     qdrant: z.object({
       url: z.string().default('http://localhost:6333'),
       apiKey: z.string().optional(),
@@ -26,6 +27,52 @@ const configSchema = z.object({
       url: z.string().default('http://localhost:8000'),
       collectionName: z.string().default('rag_documents'),
     }),
+    memory: z.object({
+      collectionName: z.string().default('rag_documents'),
+      persistPath: z.string().optional(), // JSON snapshot file, in-memory only when unset
+    }),
+    pgvector: z.object({
+      tableName: z.string().default('rag_documents'),
+      indexType: z.enum(['hnsw', 'ivfflat']).default('hnsw'),
+    }),
+  }),
+
+  // Retrieval Configuration
+  retrieval: z.object({
+    mode: z.enum(['vector', 'hybrid']).default('vector'),
+    hybridWeight: z.number().min(0).max(1).default(0.5), // share of the vector ranking in hybrid fusion
+    rrfK: z.number().default(60), // reciprocal rank fusion constant
+    mmr: z.boolean().default(false),
+    mmrLambda: z.number().min(0).max(1).default(0.7), // 1 = relevance only, 0 = diversity only
+  }),
+
+  // Reranker Configuration
+  reranker: z.object({
+    provider: z.enum(['none', 'jina', 'cohere', 'llm', 'heuristic']).default('none'),
+    candidates: z.number().default(30), // documents fetched from the vector store before reranking
+    topN: z.number().default(5), // documents passed on to the LLM
+    jina: z.object({
+      apiKey: z.string().default(''),
+      model: z.string().default('jina-reranker-v1-base-en'),
+    }),
+    cohere: z.object({
+      apiKey: z.string().default(''),
+      model: z.string().default('rerank-english-v3.0'),
+    }),
+  }),
+
+  // Query Cache Configuration (entries live for redis.queryTtl)
+  queryCache: z.object({
+    enabled: z.boolean().default(true), // retrieval results per normalized query and parameters
+    answers: z.boolean().default(false), // also final answers to the first message of a session
+  }),
+
+  // Semantic Cache Configuration (entries live for redis.queryTtl)
+  semanticCache: z.object({
+    enabled: z.boolean().default(false),
+    threshold: z.number().min(0).max(1).default(0.92), // cosine similarity to reuse a prior answer
+    maxEntries: z.number().default(1000), // oldest entries are evicted first
+    collectionName: z.string().default('semantic_cache'), // in the configured vector store
   }),
 
   // LLM Configuration
@@ -47,7 +94,7 @@ const configSchema = z.object({
 
   // Embeddings Configuration
   embeddings: z.object({
-    provider: z.enum(['jina', 'openai', 'huggingface']).default('jina'),
+    provider: z.enum(['jina', 'openai', 'huggingface', 'local', 'hashing']).default('jina'),
     jina: z.object({
       apiKey: z.string().default(''),
       model: z.string().default('jina-embeddings-v2-base-en'),
@@ -60,6 +107,18 @@ const configSchema = z.object({
       apiKey: z.string().default(''),
       model: z.string().default('sentence-transformers/all-MiniLM-L6-v2'),
     }),
+    local: z.object({
+      model: z.string().default('Xenova/all-MiniLM-L6-v2'), // ONNX sentence-transformer run on CPU
+      cacheDir: z.string().optional(),
+    }),
+    hashing: z.object({
+      dimensions: z.number().default(384), // deterministic feature hashing, for tests and offline demos
+    }),
+    batchSize: z.number().default(64), // texts per provider request
+    concurrency: z.number().default(2), // provider requests in flight at once
+    maxRetries: z.number().default(5), // retries on 429 / 5xx, with exponential backoff
+    cacheEnabled: z.boolean().default(true),
+    cacheTtl: z.number().default(2592000), // 30 days
   }),
 
   // Database Configuration (Optional)
@@ -90,12 +149,13 @@ const envConfig = {
   
   redis: {
     url: process.env.REDIS_URL || 'redis://localhost:6379',
+    store: (process.env.SESSION_STORE || (process.env.NODE_ENV === 'test' ? 'memory' : 'auto')) as 'auto' | 'redis' | 'memory',
     sessionTtl: parseInt(process.env.REDIS_SESSION_TTL || '604800'), // 7 days
     queryTtl: parseInt(process.env.REDIS_QUERY_TTL || '3600'), // 1 hour
   },
 
   vectorStore: {
-    type: (process.env.VECTOR_STORE_TYPE || 'qdrant') as 'qdrant' | 'chroma',
+    type: (process.env.VECTOR_STORE_TYPE || 'qdrant') as 'qdrant' | 'chroma' | 'memory' | 'pgvector',
     qdrant: {
       url: process.env.QDRANT_URL || 'http://localhost:6333',
       apiKey: process.env.QDRANT_API_KEY,
@@ -105,6 +165,48 @@ const envConfig = {
       url: process.env.CHROMA_URL || 'http://localhost:8000',
       collectionName: process.env.CHROMA_COLLECTION || 'rag_documents',
     },
+    memory: {
+      collectionName: process.env.MEMORY_COLLECTION || 'rag_documents',
+      persistPath: process.env.MEMORY_PERSIST_PATH,
+    },
+    pgvector: {
+      tableName: process.env.PGVECTOR_TABLE || 'rag_documents',
+      indexType: (process.env.PGVECTOR_INDEX_TYPE || 'hnsw') as 'hnsw' | 'ivfflat',
+    },
+  },
+
+  retrieval: {
+    mode: (process.env.RETRIEVAL_MODE || 'vector') as 'vector' | 'hybrid',
+    hybridWeight: parseFloat(process.env.HYBRID_WEIGHT || '0.5'),
+    rrfK: parseInt(process.env.RRF_K || '60'),
+    mmr: process.env.RETRIEVAL_MMR === 'true',
+    mmrLambda: parseFloat(process.env.MMR_LAMBDA || '0.7'),
+  },
+
+  reranker: {
+    provider: (process.env.RERANKER_PROVIDER || 'none') as 'none' | 'jina' | 'cohere' | 'llm' | 'heuristic',
+    candidates: parseInt(process.env.RERANKER_CANDIDATES || '30'),
+    topN: parseInt(process.env.RERANKER_TOP_N || '5'),
+    jina: {
+      apiKey: process.env.JINA_API_KEY || '',
+      model: process.env.JINA_RERANKER_MODEL || 'jina-reranker-v1-base-en',
+    },
+    cohere: {
+      apiKey: process.env.COHERE_API_KEY || '',
+      model: process.env.COHERE_RERANKER_MODEL || 'rerank-english-v3.0',
+    },
+  },
+
+  queryCache: {
+    enabled: process.env.QUERY_CACHE_ENABLED !== 'false',
+    answers: process.env.QUERY_CACHE_ANSWERS === 'true',
+  },
+
+  semanticCache: {
+    enabled: process.env.SEMANTIC_CACHE_ENABLED === 'true',
+    threshold: parseFloat(process.env.SEMANTIC_CACHE_THRESHOLD || '0.92'),
+    maxEntries: parseInt(process.env.SEMANTIC_CACHE_MAX_ENTRIES || '1000'),
+    collectionName: process.env.SEMANTIC_CACHE_COLLECTION || 'semantic_cache',
   },
 
   llm: {
@@ -124,7 +226,7 @@ const envConfig = {
   },
 
   embeddings: {
-    provider: (process.env.EMBEDDINGS_PROVIDER || 'jina') as 'jina' | 'openai' | 'huggingface',
+    provider: (process.env.EMBEDDINGS_PROVIDER || 'jina') as 'jina' | 'openai' | 'huggingface' | 'local' | 'hashing',
     jina: {
       apiKey: process.env.JINA_API_KEY || '',
       model: process.env.JINA_MODEL || 'jina-embeddings-v2-base-en',
@@ -137,6 +239,18 @@ const envConfig = {
       apiKey: process.env.HUGGINGFACE_API_KEY || '',
       model: process.env.HUGGINGFACE_EMBEDDINGS_MODEL || 'sentence-transformers/all-MiniLM-L6-v2',
     },
+    local: {
+      model: process.env.LOCAL_EMBEDDINGS_MODEL || 'Xenova/all-MiniLM-L6-v2',
+      cacheDir: process.env.LOCAL_EMBEDDINGS_CACHE_DIR,
+    },
+    hashing: {
+      dimensions: parseInt(process.env.HASHING_EMBEDDINGS_DIMENSIONS || '384'),
+    },
+    batchSize: parseInt(process.env.EMBEDDINGS_BATCH_SIZE || '64'),
+    concurrency: parseInt(process.env.EMBEDDINGS_CONCURRENCY || '2'),
+    maxRetries: parseInt(process.env.EMBEDDINGS_MAX_RETRIES || '5'),
+    cacheEnabled: process.env.EMBEDDINGS_CACHE_ENABLED !== 'false',
+    cacheTtl: parseInt(process.env.EMBEDDINGS_CACHE_TTL || '2592000'), // 30 days
   },
 
   database: {
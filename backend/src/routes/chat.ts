@@ -1,18 +1,48 @@
-import { Router } from 'express';
+import { Response, Router } from 'express';
 import { z } from 'zod';
 import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
 import { logger } from '../utils/logger';
 import { RedisClient } from '../services/redis';
-import { LLMService } from '../services/llm';
-import { VectorStore } from '../services/vectorStore';
+import { ChatMessage, GenerationOptions, LLMService, LLMResponse, MessageFeedback } from '../services/llm';
+import { SearchFilter, SearchResult, VectorStore } from '../services/vectorStore';
+import { RerankerService } from '../services/reranker';
+import { EmbeddingService } from '../services/embeddings';
+import { CachedAnswer, QueryCache } from '../services/queryCache';
+import { SemanticCache } from '../services/semanticCache';
+import { ConversationStore, RetrievalMetadata } from '../services/conversationStore';
+import { pathTo, SessionTree, siblingsOf } from '../services/conversationTree';
 import { validateRequest } from '../middleware/validation';
 
 const chatRouter = Router();
 
 // Schemas
+const searchFilterSchema = z.object({
+  sources: z.array(z.string()).max(20).optional(),
+  from: z.string().datetime({ offset: true }).optional(),
+  to: z.string().datetime({ offset: true }).optional(),
+  urlPrefix: z.string().max(500).optional(),
+});
+
 const sendMessageSchema = z.object({
   sessionId: z.string().optional(),
+  userId: z.string().max(100).optional(),
+  message: z.string().min(1).max(4000),
+  filter: searchFilterSchema.optional(),
+});
+
+const regenerateSchema = z.object({
+  sessionId: z.string(),
+  provider: z.enum(['gemini', 'openai', 'huggingface']).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  filter: searchFilterSchema.optional(),
+});
+
+const editMessageSchema = z.object({
+  sessionId: z.string(),
+  messageId: z.string(),
   message: z.string().min(1).max(4000),
+  filter: searchFilterSchema.optional(),
 });
 
 const resetSessionSchema = z.object({
@@ -23,80 +53,373 @@ const historySchema = z.object({
   sessionId: z.string(),
 });
 
-// POST /api/chat/send
-chatRouter.post('/send', validateRequest(sendMessageSchema), async (req, res) => {
-  try {
-    const { sessionId: providedSessionId, message } = req.body;
-    const sessionId = providedSessionId || uuidv4();
+const renameSessionSchema = z.object({
+  title: z.string().trim().min(1).max(100),
+});
 
-    logger.info('Processing chat message', { sessionId, messageLength: message.length });
+const truncateSchema = z.object({
+  messageId: z.string(),
+});
 
-    // Get conversation history
-    const history = await RedisClient.getSessionHistory(sessionId);
+const switchBranchSchema = z.object({
+  messageId: z.string(),
+});
+
+const feedbackSchema = z.object({
+  sessionId: z.string(),
+  messageId: z.string(),
+  rating: z.enum(['up', 'down']),
+  reason: z.string().trim().max(1000).optional(),
+  category: z.enum(['wrong', 'outdated', 'missing_source']).optional(),
+});
+
+const DEFAULT_SESSION_LIST_LIMIT = 50;
+const MAX_SESSION_LIST_LIMIT = 200;
+
+const DEFAULT_FEEDBACK_STATS_DAYS = 30;
+const MAX_FEEDBACK_STATS_DAYS = 365;
+
+// One question and the answer to generate for it
+interface Turn {
+  sessionId: string;
+  userId?: string;
+  question: ChatMessage;
+  history: ChatMessage[]; // conversation before the question
+  filter?: SearchFilter;
+  options?: GenerationOptions;
+  // A regenerated answer is added next to the earlier ones, below the stored question
+  questionStored?: boolean;
+}
+
+const newQuestion = (content: string, parentId: string | null): ChatMessage => ({
+  id: uuidv4(),
+  role: 'user',
+  content,
+  timestamp: new Date(),
+  parentId,
+});
+
+// The active branch, each message listing its alternatives (itself included) for switching
+function activeBranch({ messages, activeLeafId }: SessionTree) {
+  return pathTo(messages, activeLeafId).map(message => ({
+    ...message,
+    siblingIds: siblingsOf(messages, message).map(sibling => sibling.id),
+  }));
+}
+
+// Store the turn in session history, and in the archive when the database is enabled.
+// Returns the ids of the question and the answer.
+async function storeExchange(
+  turn: Turn,
+  response: LLMResponse,
+  retrieval: RetrievalMetadata
+): Promise<{ userMessageId: string; messageId: string }> {
+  const { sessionId, question } = turn;
+
+  if (!turn.questionStored) {
+    await RedisClient.addToSessionHistory(sessionId, question);
+  }
+
+  const answer: ChatMessage = {
+    id: uuidv4(),
+    role: 'assistant',
+    content: response.content,
+    timestamp: new Date(),
+    sources: response.sources,
+    parentId: question.id,
+  };
+  await RedisClient.addToSessionHistory(sessionId, answer);
+
+  if (ConversationStore.enabled) {
+    const session = await RedisClient.getSession(sessionId);
+    await ConversationStore.recordExchange(sessionId, {
+      userId: turn.userId,
+      title: session?.title,
+      question,
+      answer,
+      retrieval,
+    });
+  }
+
+  return { userMessageId: question.id, messageId: answer.id };
+}
 
-    // Retrieve relevant documents
-    const retrievedDocs = await VectorStore.search(message, 5);
-    logger.info(`Retrieved ${retrievedDocs.length} relevant documents`);
+// Names a new session after its first exchange, in the background so the reply is not delayed
+function titleSession(sessionId: string, message: string, answer: string): void {
+  LLMService.generateTitle(message, answer)
+    .then(async title => {
+      if (title && await RedisClient.setSessionTitle(sessionId, title, 'generated')) {
+        await ConversationStore.setTitle(sessionId, title);
+      }
+    })
+    .catch(error => logger.warn('Failed to generate session title:', error));
+}
+
+// Everything besides the message that affects which documents are retrieved
+function retrievalParams(filter?: SearchFilter) {
+  return {
+    filter,
+    retrieval: config.retrieval,
+    reranker: {
+      provider: config.reranker.provider,
+      candidates: RerankerService.candidateCount,
+      topN: config.reranker.topN,
+    },
+    embeddings: EmbeddingService.model,
+  };
+}
+
+// Retrieve candidates, then keep the best ones by reranker score, diversified with MMR when enabled
+async function retrieveContext(message: string, filter?: SearchFilter): Promise<SearchResult[]> {
+  const params = retrievalParams(filter);
+  const cached = await QueryCache.getRetrieval(message, params);
+  if (cached) {
+    logger.info(`Retrieved ${cached.length} relevant documents from cache`);
+    return cached;
+  }
+
+  // MMR runs after reranking, which would otherwise sort near-duplicates back together
+  const candidates = await VectorStore.search(message, RerankerService.candidateCount, {
+    filter,
+    mmr: false,
+    withVectors: config.retrieval.mmr,
+  });
+  const retrievedDocs = await RerankerService.rerank(message, candidates);
+  logger.info(`Retrieved ${retrievedDocs.length} relevant documents`, { candidates: candidates.length });
+
+  await QueryCache.setRetrieval(message, params, retrievedDocs);
+  return retrievedDocs;
+}
+
+// Reports a failed request; once the SSE stream is open, as its final frame
+function sendFailure(res: Response, message: string): void {
+  if (res.headersSent) {
+    res.write(`data: ${JSON.stringify({
+      content: '',
+      done: true,
+      error: message,
+    })}\n\n`);
+    res.end();
+    return;
+  }
+
+  res.status(500).json({
+    error: 'Internal server error',
+    message,
+  });
+}
+
+// Answers a turn and stores it. The reply is streamed as SSE when the provider supports it.
+async function answerTurn(res: Response, turn: Turn): Promise<void> {
+  const { sessionId, question, history, filter, options = {} } = turn;
+  const message = question.content;
+  const provider = options.provider ?? config.llm.provider;
+  const llm = { provider, model: config.llm[provider].model };
+
+  // Without earlier conversation the answer depends on the question alone, so it can be cached.
+  // Regenerating asks for a different answer, so it bypasses the answer caches.
+  const answerParams = history.length === 0 && !turn.questionStored ? { ...retrievalParams(filter), llm } : null;
+  let cachedAnswer: CachedAnswer | null = null;
+  let cacheSource: RetrievalMetadata['cache'] = null;
+  if (answerParams) {
+    // Exact repeats first, then questions that mean the same thing
+    cachedAnswer = await QueryCache.getAnswer(message, answerParams);
+    if (cachedAnswer) {
+      cacheSource = 'exact';
+    } else {
+      cachedAnswer = await SemanticCache.lookup(message, answerParams);
+      if (cachedAnswer) cacheSource = 'semantic';
+    }
+  }
+
+  let response: LLMResponse;
+  let retrievedDocs: SearchResult[] = [];
+  if (cachedAnswer) {
+    logger.info('Answer served from cache', { sessionId });
+    response = { ...cachedAnswer };
+  } else {
+    retrievedDocs = await retrieveContext(message, filter);
 
     // Generate response using LLM
-    const response = await LLMService.generateResponse({
+    response = await LLMService.generateResponse({
       message,
       history,
       context: retrievedDocs,
       sessionId,
+      options,
+    });
+
+    // Reported as a failure so the apology is never stored, titled or cached as an answer
+    if (response.error) {
+      sendFailure(res, response.content);
+      return;
+    }
+  }
+
+  // Runs once response.content is complete
+  const finishExchange = async () => {
+    const ids = await storeExchange(turn, response, {
+      documents: retrievedDocs.map(doc => ({ id: doc.id, url: doc.metadata.url, score: doc.score })),
+      filter,
+      cache: cacheSource,
+      llm: { ...llm, temperature: options.temperature },
+      embeddings: EmbeddingService.model,
     });
 
-    // Store message and response in session history
-    await RedisClient.addToSessionHistory(sessionId, {
-      role: 'user',
-      content: message,
-      timestamp: new Date(),
+    if (history.length === 0 && response.content) {
+      titleSession(sessionId, message, response.content);
+    }
+
+    if (answerParams && !cachedAnswer && response.content) {
+      const answer = { content: response.content, sources: response.sources };
+      await QueryCache.setAnswer(message, answerParams, answer);
+      await SemanticCache.store(message, answerParams, answer);
+    }
+
+    return ids;
+  };
+
+  // Set response headers for SSE if streaming is supported
+  if (response.streaming) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': '*',
     });
 
-    await RedisClient.addToSessionHistory(sessionId, {
-      role: 'assistant',
-      content: response.content,
-      timestamp: new Date(),
+    // Stream the response
+    for await (const chunk of response.stream!) {
+      res.write(`data: ${JSON.stringify({ content: chunk, done: false })}\n\n`);
+    }
+
+    // response.content is only complete once the stream has been drained
+    const ids = await finishExchange();
+
+    res.write(`data: ${JSON.stringify({ 
+      content: '', 
+      done: true, 
       sources: response.sources,
+      sessionId,
+      ...ids,
+    })}\n\n`);
+    res.end();
+  } else {
+    const ids = await finishExchange();
+
+    // Send complete response
+    res.json({
+      sessionId,
+      ...ids,
+      response: response.content,
+      sources: response.sources,
+      timestamp: new Date().toISOString(),
+    });
+  }
+}
+
+// POST /api/chat/send
+chatRouter.post('/send', validateRequest(sendMessageSchema), async (req, res) => {
+  try {
+    const { sessionId: providedSessionId, userId, message, filter } = req.body;
+    const sessionId = providedSessionId || uuidv4();
+
+    logger.info('Processing chat message', { sessionId, messageLength: message.length });
+
+    // Get conversation history
+    const history = await RedisClient.getSessionHistory(sessionId);
+
+    await answerTurn(res, {
+      sessionId,
+      userId,
+      question: newQuestion(message, history[history.length - 1]?.id ?? null),
+      history,
+      filter,
     });
 
-    // Set response headers for SSE if streaming is supported
-    if (response.streaming) {
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'Access-Control-Allow-Origin': '*',
+  } catch (error) {
+    logger.error('Error processing chat message:', error);
+    sendFailure(res, 'Failed to process message');
+  }
+});
+
+// POST /api/chat/regenerate
+// Answers the last question of the active branch again, as an alternative to the earlier answers.
+chatRouter.post('/regenerate', validateRequest(regenerateSchema), async (req, res) => {
+  try {
+    const { sessionId, provider, temperature, filter } = req.body;
+
+    if (provider && !LLMService.isAvailable(provider)) {
+      return res.status(400).json({
+        error: 'Invalid provider',
+        message: `No API key configured for ${provider}`,
       });
+    }
 
-      // Stream the response
-      for await (const chunk of response.stream!) {
-        res.write(`data: ${JSON.stringify({ content: chunk, done: false })}\\n\\n`);
-      }
+    const history = await RedisClient.getSessionHistory(sessionId);
+    const index = history.map(message => message.role).lastIndexOf('user');
 
-      res.write(`data: ${JSON.stringify({ 
-        content: '', 
-        done: true, 
-        sources: response.sources,
-        sessionId 
-      })}\\n\\n`);
-      res.end();
-    } else {
-      // Send complete response
-      res.json({
-        sessionId,
-        response: response.content,
-        sources: response.sources,
-        timestamp: new Date().toISOString(),
+    if (index === -1) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Session has no question to answer',
       });
     }
 
+    const question = history[index];
+    logger.info('Regenerating answer', { sessionId, messageId: question.id, provider, temperature });
+
+    await answerTurn(res, {
+      sessionId,
+      question,
+      history: history.slice(0, index),
+      filter,
+      options: { provider, temperature },
+      questionStored: true,
+    });
+
   } catch (error) {
-    logger.error('Error processing chat message:', error);
-    res.status(500).json({
-      error: 'Internal server error',
-      message: 'Failed to process message',
+    logger.error('Error regenerating answer:', error);
+    sendFailure(res, 'Failed to regenerate answer');
+  }
+});
+
+// POST /api/chat/edit
+// Adds the edited question as an alternative to the original, which is kept with its
+// answers, then answers it.
+chatRouter.post('/edit', validateRequest(editMessageSchema), async (req, res) => {
+  try {
+    const { sessionId, messageId, message, filter } = req.body;
+
+    const { messages } = await RedisClient.getSessionTree(sessionId);
+    const edited = messages.find(stored => stored.id === messageId);
+
+    if (!edited) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Message not found',
+      });
+    }
+
+    if (edited.role !== 'user') {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Only user messages can be edited',
+      });
+    }
+
+    logger.info('Editing message', { sessionId, messageId });
+
+    await answerTurn(res, {
+      sessionId,
+      question: newQuestion(message, edited.parentId),
+      history: edited.parentId ? pathTo(messages, edited.parentId) : [],
+      filter,
     });
+
+  } catch (error) {
+    logger.error('Error editing message:', error);
+    sendFailure(res, 'Failed to edit message');
   }
 });
 
@@ -112,7 +435,7 @@ chatRouter.get('/history', async (req, res) => {
       });
     }
 
-    const history = await RedisClient.getSessionHistory(sessionId);
+    const history = activeBranch(await RedisClient.getSessionTree(sessionId));
     
     res.json({
       sessionId,
@@ -134,7 +457,8 @@ chatRouter.post('/reset', validateRequest(resetSessionSchema), async (req, res)
   try {
     const { sessionId } = req.body;
 
-    await RedisClient.clearSessionHistory(sessionId);
+    await RedisClient.deleteSession(sessionId);
+    await ConversationStore.markSessionDeleted(sessionId);
     
     logger.info('Session reset', { sessionId });
 
@@ -153,4 +477,320 @@ chatRouter.post('/reset', validateRequest(resetSessionSchema), async (req, res)
   }
 });
 
+// GET /api/chat/sessions
+chatRouter.get('/sessions', async (req, res) => {
+  try {
+    const requested = parseInt(String(req.query.limit ?? DEFAULT_SESSION_LIST_LIMIT));
+    const limit = Number.isNaN(requested)
+      ? DEFAULT_SESSION_LIST_LIMIT
+      : Math.min(Math.max(requested, 1), MAX_SESSION_LIST_LIMIT);
+
+    const sessions = await RedisClient.listSessions(limit);
+
+    res.json({
+      sessions,
+      count: sessions.length,
+    });
+
+  } catch (error) {
+    logger.error('Error listing chat sessions:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to list sessions',
+    });
+  }
+});
+
+// GET /api/chat/sessions/:sessionId
+chatRouter.get('/sessions/:sessionId', async (req, res) => {
+  try {
+    const session = await RedisClient.getSession(req.params.sessionId);
+
+    if (!session) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Session not found',
+      });
+    }
+
+    res.json(session);
+
+  } catch (error) {
+    logger.error('Error fetching chat session:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch session',
+    });
+  }
+});
+
+// PATCH /api/chat/sessions/:sessionId
+chatRouter.patch('/sessions/:sessionId', validateRequest(renameSessionSchema), async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const title = req.body.title.trim();
+    const renamed = await RedisClient.setSessionTitle(sessionId, title, 'user');
+
+    if (!renamed) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Session not found',
+      });
+    }
+
+    await ConversationStore.setTitle(sessionId, title);
+
+    logger.info('Session renamed', { sessionId });
+    res.json(await RedisClient.getSession(sessionId));
+
+  } catch (error) {
+    logger.error('Error renaming chat session:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to rename session',
+    });
+  }
+});
+
+// DELETE /api/chat/sessions/:sessionId
+chatRouter.delete('/sessions/:sessionId', async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const deleted = await RedisClient.deleteSession(sessionId);
+    await ConversationStore.markSessionDeleted(sessionId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Session not found',
+      });
+    }
+
+    logger.info('Session deleted', { sessionId });
+    res.json({
+      success: true,
+      sessionId,
+    });
+
+  } catch (error) {
+    logger.error('Error deleting chat session:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to delete session',
+    });
+  }
+});
+
+// DELETE /api/chat/sessions/:sessionId/messages/:messageId
+chatRouter.delete('/sessions/:sessionId/messages/:messageId', async (req, res) => {
+  try {
+    const { sessionId, messageId } = req.params;
+    const deleted = await RedisClient.deleteMessage(sessionId, messageId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Message not found',
+      });
+    }
+
+    await ConversationStore.markMessagesDeleted([messageId]);
+
+    logger.info('Message deleted', { sessionId, messageId });
+    res.json({
+      success: true,
+      sessionId,
+      messageId,
+    });
+
+  } catch (error) {
+    logger.error('Error deleting chat message:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to delete message',
+    });
+  }
+});
+
+// GET /api/chat/sessions/:sessionId/messages/:messageId/siblings
+// Lists the alternatives to a message: the other answers to its question, or other edits.
+chatRouter.get('/sessions/:sessionId/messages/:messageId/siblings', async (req, res) => {
+  try {
+    const { sessionId, messageId } = req.params;
+    const { messages } = await RedisClient.getSessionTree(sessionId);
+    const message = messages.find(stored => stored.id === messageId);
+
+    if (!message) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Message not found',
+      });
+    }
+
+    const siblings = siblingsOf(messages, message);
+    res.json({
+      sessionId,
+      messageId,
+      index: siblings.indexOf(message),
+      siblings,
+    });
+
+  } catch (error) {
+    logger.error('Error fetching message siblings:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch message siblings',
+    });
+  }
+});
+
+// POST /api/chat/sessions/:sessionId/branch
+// Switches to the newest branch through the given message.
+chatRouter.post('/sessions/:sessionId/branch', validateRequest(switchBranchSchema), async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { messageId } = req.body;
+    const switched = await RedisClient.setActiveBranch(sessionId, messageId);
+
+    if (!switched) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Message not found',
+      });
+    }
+
+    const history = activeBranch(await RedisClient.getSessionTree(sessionId));
+
+    logger.info('Branch switched', { sessionId, messageId });
+    res.json({
+      sessionId,
+      messages: history,
+      count: history.length,
+    });
+
+  } catch (error) {
+    logger.error('Error switching branch:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to switch branch',
+    });
+  }
+});
+
+// POST /api/chat/sessions/:sessionId/truncate
+// Removes every message below the given one, in all branches; the message itself is kept.
+chatRouter.post('/sessions/:sessionId/truncate', validateRequest(truncateSchema), async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { messageId } = req.body;
+    const removed = await RedisClient.truncateSessionHistory(sessionId, messageId);
+
+    if (!removed) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Message not found',
+      });
+    }
+
+    const removedMessageIds = removed.map(message => message.id);
+    await ConversationStore.markMessagesDeleted(removedMessageIds);
+
+    logger.info('Session history truncated', { sessionId, messageId, removed: removed.length });
+    res.json({
+      success: true,
+      sessionId,
+      removedMessageIds,
+    });
+
+  } catch (error) {
+    logger.error('Error truncating chat history:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to truncate history',
+    });
+  }
+});
+
+// POST /api/chat/feedback
+chatRouter.post('/feedback', validateRequest(feedbackSchema), async (req, res) => {
+  try {
+    const { sessionId, messageId, rating, reason, category } = req.body;
+    const feedback: MessageFeedback = {
+      rating,
+      reason: reason || undefined,
+      category,
+      createdAt: new Date(),
+    };
+
+    // Stats attribute ratings to the provider and sources behind an answer, so questions can't be rated
+    const { messages } = await RedisClient.getSessionTree(sessionId);
+    const rated = messages.find(message => message.id === messageId);
+    if (rated && rated.role !== 'assistant') {
+      return res.status(400).json({
+        error: 'Invalid message',
+        message: 'Only assistant messages can be rated',
+      });
+    }
+
+    const message = rated && await RedisClient.setMessageFeedback(sessionId, messageId, feedback);
+
+    if (!message) {
+      return res.status(404).json({
+        error: 'Not found',
+        message: 'Message not found',
+      });
+    }
+
+    await ConversationStore.recordFeedback(messageId, feedback);
+
+    logger.info('Feedback recorded', { sessionId, messageId, rating, category });
+    res.json({
+      success: true,
+      sessionId,
+      messageId,
+      feedback,
+    });
+
+  } catch (error) {
+    logger.error('Error recording feedback:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to record feedback',
+    });
+  }
+});
+
+// GET /api/chat/feedback/stats
+chatRouter.get('/feedback/stats', async (req, res) => {
+  try {
+    // Live sessions expire, so only the archive has a complete picture
+    if (!ConversationStore.enabled) {
+      return res.status(503).json({
+        error: 'Service unavailable',
+        message: 'Feedback stats require the conversation archive (DATABASE_ENABLED=true)',
+      });
+    }
+
+    const requested = parseInt(String(req.query.days ?? DEFAULT_FEEDBACK_STATS_DAYS));
+    const days = Number.isNaN(requested)
+      ? DEFAULT_FEEDBACK_STATS_DAYS
+      : Math.min(Math.max(requested, 1), MAX_FEEDBACK_STATS_DAYS);
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const stats = await ConversationStore.getFeedbackStats(since);
+
+    res.json({
+      days,
+      ...stats,
+    });
+
+  } catch (error) {
+    logger.error('Error computing feedback stats:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to compute feedback stats',
+    });
+  }
+});
+
 export { chatRouter };
\ No newline at end of file
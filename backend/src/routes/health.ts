@@ -0,0 +1,56 @@
+import { Router } from 'express';
+import { logger } from '../utils/logger';
+import { HealthService } from '../services/health';
+
+const healthRouter = Router();
+
+// GET /api/health/live
+// The process is up and serving requests; dependencies are not checked.
+healthRouter.get('/live', (req, res) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+  });
+});
+
+// GET /api/health/ready
+// 200 only when every dependency of the RAG pipeline passes its check.
+healthRouter.get('/ready', async (req, res) => {
+  try {
+    const report = await HealthService.getReport();
+    const failing = Object.entries(report.checks)
+      .filter(([, check]) => check.status === 'fail')
+      .map(([name]) => name);
+
+    res.status(report.status === 'ok' ? 200 : 503).json({
+      status: report.status,
+      timestamp: report.timestamp,
+      failing,
+    });
+
+  } catch (error) {
+    logger.error('Error running readiness check:', error);
+    res.status(503).json({
+      status: 'unavailable',
+      message: 'Readiness check failed',
+    });
+  }
+});
+
+// GET /api/health
+// Detailed report with status and latency per dependency.
+healthRouter.get('/', async (req, res) => {
+  try {
+    const report = await HealthService.getReport();
+    res.status(report.status === 'ok' ? 200 : 503).json(report);
+
+  } catch (error) {
+    logger.error('Error building health report:', error);
+    res.status(503).json({
+      status: 'unavailable',
+      message: 'Health check failed',
+    });
+  }
+});
+
+export { healthRouter };
@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+import { IngestJobs } from '../services/ingestJobs';
+import { validateRequest } from '../middleware/validation';
+
+const ingestRouter = Router();
+
+// Schemas
+const startIngestSchema = z.object({
+  maxArticles: z.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/ingest
+ingestRouter.post('/', validateRequest(startIngestSchema), async (req, res) => {
+  try {
+    const running = IngestJobs.getRunningJob();
+    if (running) {
+      return res.status(409).json({
+        error: 'Ingestion already running',
+        message: 'Wait for the current job to finish or cancel it',
+        jobId: running.id,
+      });
+    }
+
+    const job = IngestJobs.start({ maxArticles: req.body.maxArticles });
+
+    res.status(202).json({
+      jobId: job.id,
+      status: job.status,
+      createdAt: job.createdAt,
+    });
+
+  } catch (error) {
+    logger.error('Error starting ingestion job:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to start ingestion',
+    });
+  }
+});
+
+// GET /api/ingest
+ingestRouter.get('/', async (req, res) => {
+  res.json({
+    jobs: IngestJobs.listJobs(),
+  });
+});
+
+// GET /api/ingest/:jobId
+ingestRouter.get('/:jobId', async (req, res) => {
+  const job = IngestJobs.getJob(req.params.jobId);
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'Ingestion job not found',
+    });
+  }
+
+  res.json(job);
+});
+
+// DELETE /api/ingest/:jobId
+ingestRouter.delete('/:jobId', async (req, res) => {
+  const job = IngestJobs.getJob(req.params.jobId);
+
+  if (!job) {
+    return res.status(404).json({
+      error: 'Not found',
+      message: 'Ingestion job not found',
+    });
+  }
+
+  if (!IngestJobs.cancel(job.id)) {
+    return res.status(409).json({
+      error: 'Job not running',
+      message: `Ingestion job is already ${job.status}`,
+      status: job.status,
+    });
+  }
+
+  res.status(202).json({
+    jobId: job.id,
+    status: job.status,
+    message: 'Cancellation requested',
+  });
+});
+
+export { ingestRouter };
@@ -10,6 +10,8 @@ import { ingestRouter } from './routes/ingest';
 import { healthRouter } from './routes/health';
 import { RedisClient } from './services/redis';
 import { VectorStore } from './services/vectorStore';
+import { ConversationStore } from './services/conversationStore';
+import { Database } from './services/database';
 
 const app = express();
 
@@ -52,14 +54,24 @@ app.use(errorHandler);
 // Initialize services
 async function startServer() {
   try {
-    // Initialize Redis connection
+    // Initialize Redis connection, or the in-memory fallback
     await RedisClient.connect();
-    logger.info('Redis connected successfully');
+    logger.info(`Session store initialized: ${RedisClient.storeName}`);
 
     // Initialize Vector Store
     await VectorStore.initialize();
     logger.info('Vector store initialized successfully');
 
+    // The conversation archive is optional, so chat keeps working without it
+    if (ConversationStore.enabled) {
+      try {
+        await ConversationStore.connect();
+        logger.info('Conversation archive connected');
+      } catch (error) {
+        logger.warn('Conversation archive unavailable, conversations will not be archived:', error);
+      }
+    }
+
     const server = app.listen(config.port, () => {
       logger.info(`🚀 RAG Backend server running on port ${config.port}`, {
         environment: config.environment,
@@ -72,6 +84,7 @@ async function startServer() {
       logger.info('SIGTERM received, shutting down gracefully');
       server.close(async () => {
         await RedisClient.disconnect();
+        await Database.disconnect();
         process.exit(0);
       });
     });
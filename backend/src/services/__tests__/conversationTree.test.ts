@@ -0,0 +1,113 @@
+import {
+  descendantIds,
+  latestLeaf,
+  pathTo,
+  removeMessages,
+  siblingsOf,
+  StoredMessage,
+  withParentIds,
+} from '../conversationTree';
+import type { ChatMessage } from '../llm';
+
+function message(id: string, parentId: string | null, role: ChatMessage['role'] = 'user'): ChatMessage {
+  return { id, parentId, role, content: id, timestamp: new Date(0) };
+}
+
+// q1 -> a1 -> q2 -> a2, with q2b edited next to q2 and a2b regenerated next to a2
+const messages = [
+  message('q1', null),
+  message('a1', 'q1', 'assistant'),
+  message('q2', 'a1'),
+  message('a2', 'q2', 'assistant'),
+  message('q2b', 'a1'),
+  message('a2b', 'q2', 'assistant'),
+];
+
+const ids = (list: ChatMessage[]) => list.map(entry => entry.id);
+
+describe('withParentIds', () => {
+  it('chains messages stored before branching to the one stored before them', () => {
+    const stored: StoredMessage[] = [
+      { id: 'q1', role: 'user', content: '', timestamp: new Date(0) },
+      { id: 'a1', role: 'assistant', content: '', timestamp: new Date(0) },
+    ];
+
+    expect(withParentIds(stored).map(entry => entry.parentId)).toEqual([null, 'q1']);
+  });
+
+  it('keeps parent ids that are already set, including null', () => {
+    const stored: StoredMessage[] = [message('q1', null), message('q2', null)];
+
+    expect(withParentIds(stored).map(entry => entry.parentId)).toEqual([null, null]);
+  });
+});
+
+describe('pathTo', () => {
+  it('walks from the root down to the given leaf', () => {
+    expect(ids(pathTo(messages, 'a2'))).toEqual(['q1', 'a1', 'q2', 'a2']);
+  });
+
+  it('uses the most recently added message without a known leaf', () => {
+    expect(ids(pathTo(messages))).toEqual(['q1', 'a1', 'q2', 'a2b']);
+    expect(ids(pathTo(messages, 'missing'))).toEqual(['q1', 'a1', 'q2', 'a2b']);
+  });
+
+  it('stops at a cycle', () => {
+    const cyclic = [message('x', 'y'), message('y', 'x')];
+
+    expect(ids(pathTo(cyclic, 'x'))).toEqual(['y', 'x']);
+  });
+
+  it('returns nothing for an empty tree', () => {
+    expect(pathTo([], null)).toEqual([]);
+  });
+});
+
+describe('siblingsOf', () => {
+  it('lists messages with the same parent, oldest first', () => {
+    expect(ids(siblingsOf(messages, messages[4]))).toEqual(['q2', 'q2b']);
+    expect(ids(siblingsOf(messages, messages[0]))).toEqual(['q1']);
+  });
+});
+
+describe('latestLeaf', () => {
+  it('follows the latest child at each step', () => {
+    expect(latestLeaf(messages, 'q1')).toBe('q2b');
+    expect(latestLeaf(messages, 'q2')).toBe('a2b');
+  });
+
+  it('returns the message itself when it has no children', () => {
+    expect(latestLeaf(messages, 'a2')).toBe('a2');
+  });
+});
+
+describe('descendantIds', () => {
+  it('collects every message below, in all branches', () => {
+    expect(descendantIds(messages, 'a1')).toEqual(new Set(['q2', 'a2', 'q2b', 'a2b']));
+    expect(descendantIds(messages, 'a2').size).toBe(0);
+  });
+});
+
+describe('removeMessages', () => {
+  it('moves children and the active leaf up to the nearest remaining ancestor', () => {
+    const tree = removeMessages({ messages, activeLeafId: 'q2' }, new Set(['a1', 'q2']));
+
+    expect(ids(tree.messages)).toEqual(['q1', 'a2', 'q2b', 'a2b']);
+    expect(tree.messages.map(entry => entry.parentId)).toEqual([null, 'q1', 'q1', 'q1']);
+    expect(tree.activeLeafId).toBe('q1');
+  });
+
+  it('clears the active leaf when all its ancestors are removed', () => {
+    const tree = removeMessages({ messages, activeLeafId: 'a1' }, new Set(['q1', 'a1']));
+
+    expect(tree.activeLeafId).toBeNull();
+    expect(tree.messages.find(entry => entry.id === 'q2')?.parentId).toBeNull();
+  });
+
+  it('leaves the tree unchanged when nothing is removed', () => {
+    const tree = removeMessages({ messages, activeLeafId: 'a2' }, new Set());
+
+    expect(tree.messages).toEqual(messages);
+    expect(tree.activeLeafId).toBe('a2');
+  });
+});
@@ -0,0 +1,140 @@
+import { EmbeddingApiError, EmbeddingService } from '../embeddings';
+import { RedisClient } from '../redis';
+
+jest.mock('../../config/config', () => ({
+  config: {
+    embeddings: {
+      provider: 'jina',
+      jina: { apiKey: 'test-key', model: 'jina-embeddings-v2-base-en' },
+      openai: { apiKey: '', model: 'text-embedding-3-small' },
+      huggingface: { apiKey: '', model: 'sentence-transformers/all-MiniLM-L6-v2' },
+      local: { model: 'Xenova/all-MiniLM-L6-v2' },
+      hashing: { dimensions: 8 },
+      batchSize: 2,
+      concurrency: 2,
+      maxRetries: 2,
+      cacheEnabled: true,
+      cacheTtl: 60,
+    },
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../redis', () => {
+  const values = new Map<string, string>();
+  return {
+    RedisClient: {
+      values,
+      mget: jest.fn(async (keys: string[]) => keys.map(key => values.get(key) ?? null)),
+      set: jest.fn(async (key: string, value: string) => {
+        values.set(key, value);
+      }),
+    },
+  };
+});
+
+const redis = RedisClient as unknown as {
+  values: Map<string, string>;
+  mget: jest.Mock;
+  set: jest.Mock;
+};
+
+// A fake vector per text, so results can be matched back to their input
+const vectorFor = (text: string) => [text.length, text.charCodeAt(0)];
+
+function jinaResponse(status = 200) {
+  return async (_url: unknown, init?: { body?: unknown }) => {
+    const { input } = JSON.parse(String(init?.body)) as { input: string[] };
+    return {
+      ok: status === 200,
+      status,
+      // Out of order on purpose; the service sorts by index
+      json: async () => ({
+        data: input.map((text, index) => ({ index, embedding: vectorFor(text) })).reverse(),
+      }),
+    } as unknown as Response;
+  };
+}
+
+describe('EmbeddingService', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    redis.values.clear();
+    jest.clearAllMocks();
+    fetchMock = jest.spyOn(global, 'fetch').mockImplementation(jinaResponse());
+    // Shortest backoff, so retries take a fraction of a second
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends texts in batches and returns vectors in input order', async () => {
+    const texts = ['a', 'bb', 'ccc', 'dddd', 'eeeee'];
+
+    await expect(EmbeddingService.generateEmbeddings(texts)).resolves.toEqual(texts.map(vectorFor));
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('only sends texts missing from the cache', async () => {
+    await EmbeddingService.generateEmbeddings(['first', 'second']);
+    fetchMock.mockClear();
+
+    await expect(EmbeddingService.generateEmbeddings(['second', 'third', 'first']))
+      .resolves.toEqual(['second', 'third', 'first'].map(vectorFor));
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).input).toEqual(['third']);
+  });
+
+  it('keys the cache on the model and the text', async () => {
+    await EmbeddingService.generateEmbedding('hello');
+
+    expect(redis.set).toHaveBeenCalledWith(
+      expect.stringMatching(/^embedding:jina\/jina-embeddings-v2-base-en:[0-9a-f]{64}$/),
+      JSON.stringify(vectorFor('hello')),
+      60
+    );
+  });
+
+  it('neither reads nor writes the cache when bypassing it', async () => {
+    await EmbeddingService.generateEmbedding('hello');
+    fetchMock.mockClear();
+    redis.set.mockClear();
+
+    await EmbeddingService.generateEmbedding('hello', { bypassCache: true });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(redis.set).not.toHaveBeenCalled();
+  });
+
+  it('treats a failing cache as a miss', async () => {
+    redis.mget.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(EmbeddingService.generateEmbedding('hello')).resolves.toEqual(vectorFor('hello'));
+  });
+
+  it('retries rate-limited requests', async () => {
+    fetchMock.mockImplementationOnce(jinaResponse(429));
+
+    await expect(EmbeddingService.generateEmbedding('hello')).resolves.toEqual(vectorFor('hello'));
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after maxRetries', async () => {
+    fetchMock.mockImplementation(jinaResponse(503));
+
+    await expect(EmbeddingService.generateEmbedding('hello')).rejects.toBeInstanceOf(EmbeddingApiError);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockImplementation(jinaResponse(400));
+
+    await expect(EmbeddingService.generateEmbedding('hello')).rejects.toThrow('HTTP 400');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { KeywordIndex, reciprocalRankFusion, tokenize } from '../keywordIndex';
+import type { Document, SearchResult } from '../vectorStores';
+
+function document(id: string, title: string, content: string, source = 'Reuters', publishedAt?: number): Document {
+  return {
+    id,
+    content,
+    metadata: { title, url: `https://example.com/${id}`, timestamp: '', source, publishedAt },
+  };
+}
+
+function result(id: string, score = 0): SearchResult {
+  return { id, content: id, metadata: document(id, id, id).metadata, score };
+}
+
+describe('tokenize', () => {
+  it('lowercases, splits on non-alphanumerics and drops stop words', () => {
+    expect(tokenize('What is the NVDA share price, in 2024?')).toEqual(['nvda', 'share', 'price', '2024']);
+  });
+
+  it('keeps letters outside ASCII', () => {
+    expect(tokenize('Zürich café')).toEqual(['zürich', 'café']);
+  });
+});
+
+describe('KeywordIndex', () => {
+  let index: KeywordIndex;
+
+  beforeEach(() => {
+    index = new KeywordIndex();
+    index.add([
+      document('1', 'Nvidia earnings', 'NVDA beat estimates as data center revenue grew', 'Reuters', 1000),
+      document('2', 'Chip exports', 'New rules limit chip exports to China', 'BBC', 2000),
+      document('3', 'Markets', 'Stocks rose; NVDA and AMD led chip makers higher', 'Reuters', 3000),
+    ]);
+  });
+
+  it('ranks documents by BM25 score', () => {
+    const results = index.search('NVDA earnings', 10);
+
+    expect(results.map(entry => entry.id)).toEqual(['1', '3']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  it('returns nothing for a query made only of stop words', () => {
+    expect(index.search('what is the', 10)).toEqual([]);
+  });
+
+  it('limits results to topK', () => {
+    expect(index.search('chip NVDA', 1)).toHaveLength(1);
+  });
+
+  it('applies the search filter', () => {
+    expect(index.search('chip', 10, { sources: ['BBC'] }).map(entry => entry.id)).toEqual(['2']);
+    expect(index.search('NVDA', 10, { from: new Date(2000).toISOString() }).map(entry => entry.id)).toEqual(['3']);
+  });
+
+  it('replaces a document added again under the same id', () => {
+    index.add([document('1', 'Weather', 'Rain expected tomorrow')]);
+
+    expect(index.size).toBe(3);
+    expect(index.search('earnings', 10)).toEqual([]);
+    expect(index.search('rain', 10).map(entry => entry.id)).toEqual(['1']);
+  });
+
+  it('forgets removed and cleared documents', () => {
+    index.remove('1');
+    expect(index.search('NVDA', 10).map(entry => entry.id)).toEqual(['3']);
+
+    index.clear();
+    expect(index.size).toBe(0);
+    expect(index.search('NVDA', 10)).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('scores a document ranked first by both retrievers as 1', () => {
+    const [top] = reciprocalRankFusion([result('a', 0.9)], [result('a', 12)], 0.5, 60);
+
+    expect(top.id).toBe('a');
+    expect(top.score).toBeCloseTo(1);
+  });
+
+  it('ranks documents found by both retrievers above those found by one', () => {
+    const fused = reciprocalRankFusion(
+      [result('a'), result('b'), result('c')],
+      [result('d'), result('c')],
+      0.6,
+      60
+    );
+
+    expect(fused.map(entry => entry.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+
+  it('follows the vector ranking with a weight of 1 and the keyword ranking with 0', () => {
+    const vector = [result('a'), result('b')];
+    const keyword = [result('b'), result('a')];
+
+    expect(reciprocalRankFusion(vector, keyword, 1, 60).map(entry => entry.id)).toEqual(['a', 'b']);
+    expect(reciprocalRankFusion(vector, keyword, 0, 60).map(entry => entry.id)).toEqual(['b', 'a']);
+  });
+
+  it('does not modify the input results', () => {
+    const vector = [result('a', 0.9)];
+    reciprocalRankFusion(vector, [result('a', 5)], 0.5, 60);
+
+    expect(vector[0].score).toBe(0.9);
+  });
+});
@@ -0,0 +1,53 @@
+import { maximalMarginalRelevance } from '../mmr';
+import type { SearchResult } from '../vectorStores';
+
+function result(id: string, score: number, vector?: number[], content = id): SearchResult {
+  return {
+    id,
+    content,
+    metadata: { title: id, url: '', timestamp: '', source: 'test' },
+    score,
+    vector,
+  };
+}
+
+const ids = (results: SearchResult[]) => results.map(entry => entry.id);
+
+describe('maximalMarginalRelevance', () => {
+  // b is a near duplicate of a, c is less relevant but different
+  const candidates = [
+    result('a', 0.9, [1, 0]),
+    result('b', 0.85, [0.99, 0.14]),
+    result('c', 0.6, [0, 1]),
+  ];
+
+  it('keeps the score order with lambda 1', () => {
+    expect(ids(maximalMarginalRelevance(candidates, 3, 1))).toEqual(['a', 'b', 'c']);
+  });
+
+  it('prefers a different result over a near duplicate', () => {
+    expect(ids(maximalMarginalRelevance(candidates, 2, 0.5))).toEqual(['a', 'c']);
+  });
+
+  it('keeps the original scores', () => {
+    const selected = maximalMarginalRelevance(candidates, 3, 0.5);
+
+    expect(selected.map(entry => entry.score)).toEqual([0.9, 0.6, 0.85]);
+  });
+
+  it('falls back to token overlap for results without vectors', () => {
+    const keywordOnly = [
+      result('a', 10, undefined, 'nvidia earnings beat estimates'),
+      result('b', 9, undefined, 'nvidia earnings beat expectations'),
+      result('c', 5, undefined, 'central bank holds rates'),
+    ];
+
+    expect(ids(maximalMarginalRelevance(keywordOnly, 2, 0.3))).toEqual(['a', 'c']);
+  });
+
+  it('returns at most k results', () => {
+    expect(maximalMarginalRelevance(candidates, 5, 0.5)).toHaveLength(3);
+    expect(maximalMarginalRelevance(candidates.slice(0, 1), 0, 0.5)).toEqual([]);
+    expect(maximalMarginalRelevance([], 3, 0.5)).toEqual([]);
+  });
+});
@@ -0,0 +1,93 @@
+import { canonicalJson, normalizeQuery, QueryCache } from '../queryCache';
+import { RedisClient } from '../redis';
+
+jest.mock('../../config/config', () => ({
+  config: {
+    redis: { queryTtl: 3600 },
+    queryCache: { enabled: true, answers: true },
+  },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+jest.mock('../redis', () => {
+  const values = new Map<string, string>();
+  return {
+    RedisClient: {
+      values,
+      get: jest.fn(async (key: string) => values.get(key) ?? null),
+      set: jest.fn(async (key: string, value: string) => {
+        values.set(key, value);
+      }),
+      incr: jest.fn(async (key: string) => {
+        const next = Number(values.get(key) ?? '0') + 1;
+        values.set(key, String(next));
+        return next;
+      }),
+    },
+  };
+});
+
+const redis = RedisClient as unknown as {
+  values: Map<string, string>;
+  get: jest.Mock;
+  set: jest.Mock;
+};
+
+const answer = { content: 'Nvidia beat estimates.', sources: [] };
+
+describe('normalizeQuery', () => {
+  it('lowercases, collapses whitespace and drops trailing punctuation', () => {
+    expect(normalizeQuery("  What's new   in AI?! ")).toBe("what's new in ai");
+  });
+});
+
+describe('canonicalJson', () => {
+  it('sorts object keys at every level and skips undefined values', () => {
+    expect(canonicalJson({ b: 1, a: { d: [2, { f: 1, e: 0 }], c: undefined } }))
+      .toBe('{"a":{"d":[2,{"e":0,"f":1}]},"b":1}');
+    expect(canonicalJson({ topK: 5, mode: 'hybrid' })).toBe(canonicalJson({ mode: 'hybrid', topK: 5 }));
+  });
+});
+
+describe('QueryCache', () => {
+  beforeEach(() => {
+    redis.values.clear();
+    jest.clearAllMocks();
+  });
+
+  it('shares entries between queries that normalize the same and equal parameters', async () => {
+    await QueryCache.setAnswer('What is new in AI?', { topK: 5, mode: 'hybrid' }, answer);
+
+    await expect(QueryCache.getAnswer('what is new in ai', { mode: 'hybrid', topK: 5 })).resolves.toEqual(answer);
+    await expect(QueryCache.getAnswer('what is new in ai', { mode: 'vector', topK: 5 })).resolves.toBeNull();
+    await expect(QueryCache.getRetrieval('what is new in ai', { mode: 'hybrid', topK: 5 })).resolves.toBeNull();
+  });
+
+  it('embeds the collection version in keys', async () => {
+    await QueryCache.setAnswer('latest news', {}, answer);
+
+    expect(redis.set).toHaveBeenCalledWith(expect.stringMatching(/^query-cache:answer:v0:[0-9a-f]{64}$/), expect.any(String), 3600);
+    await expect(QueryCache.getVersion()).resolves.toBe('0');
+  });
+
+  it('makes earlier entries unreachable after invalidation', async () => {
+    await QueryCache.setRetrieval('latest news', {}, []);
+    await QueryCache.invalidate();
+
+    await expect(QueryCache.getVersion()).resolves.toBe('1');
+    await expect(QueryCache.getRetrieval('latest news', {})).resolves.toBeNull();
+
+    await QueryCache.setRetrieval('latest news', {}, []);
+    expect(redis.set).toHaveBeenLastCalledWith(expect.stringContaining(':retrieval:v1:'), '[]', 3600);
+    await expect(QueryCache.getRetrieval('latest news', {})).resolves.toEqual([]);
+  });
+
+  it('treats Redis errors as misses', async () => {
+    redis.get.mockRejectedValueOnce(new Error('connection refused'));
+
+    await expect(QueryCache.getAnswer('latest news', {})).resolves.toBeNull();
+  });
+});
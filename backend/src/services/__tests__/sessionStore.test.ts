@@ -0,0 +1,148 @@
+import type { ChatMessage } from '../llm';
+import { MemorySessionStore } from '../redis';
+
+jest.mock('../../config/config', () => ({
+  config: { redis: { url: 'redis://localhost:6379', store: 'memory', sessionTtl: 60, queryTtl: 60 } },
+}));
+
+jest.mock('../../utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const TTL_SECONDS = 60;
+
+function message(id: string, parentId: string | null, role: ChatMessage['role'] = 'user', content = id): ChatMessage {
+  return { id, parentId, role, content, timestamp: new Date() };
+}
+
+const ids = (messages: ChatMessage[]) => messages.map(entry => entry.id);
+
+describe('MemorySessionStore', () => {
+  let store: MemorySessionStore;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    store = new MemorySessionStore(TTL_SECONDS, 2);
+
+    await store.addToSessionHistory('s1', message('q1', null, 'user', 'What changed in the chip export rules?'));
+    await store.addToSessionHistory('s1', message('a1', 'q1', 'assistant'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('sessions', () => {
+    it('names a session after its first question until it gets a title', async () => {
+      await expect(store.getSession('s1')).resolves.toMatchObject({
+        title: 'What changed in the chip export rules?',
+        titleSource: 'message',
+        messageCount: 2,
+      });
+
+      await store.setSessionTitle('s1', 'Chip exports', 'user');
+      await store.setSessionTitle('s1', 'Generated title', 'generated');
+      await expect(store.getSession('s1')).resolves.toMatchObject({ title: 'Chip exports', titleSource: 'user' });
+    });
+
+    it('expires a session TTL seconds after its last read', async () => {
+      jest.advanceTimersByTime(50 * 1000);
+      await store.getSessionTree('s1');
+      jest.advanceTimersByTime(50 * 1000);
+      await expect(store.getSession('s1')).resolves.not.toBeNull();
+
+      jest.advanceTimersByTime(11 * 1000);
+      await expect(store.getSession('s1')).resolves.toBeNull();
+      await expect(store.getSessionHistory('s1')).resolves.toEqual([]);
+    });
+
+    it.each([
+      ['setting feedback', (s: MemorySessionStore) => s.setMessageFeedback('s1', 'a1', { rating: 'up', createdAt: new Date() })],
+      ['switching branch', (s: MemorySessionStore) => s.setActiveBranch('s1', 'q1')],
+      ['renaming', (s: MemorySessionStore) => s.setSessionTitle('s1', 'Renamed', 'user')],
+    ])('pushes back the expiry when %s', async (_, change) => {
+      jest.advanceTimersByTime(50 * 1000);
+      await change(store);
+      jest.advanceTimersByTime(50 * 1000);
+
+      await expect(store.getSession('s1')).resolves.not.toBeNull();
+    });
+
+    it('lists the most recently updated sessions first', async () => {
+      jest.advanceTimersByTime(1000);
+      await store.addToSessionHistory('s2', message('q2', null));
+      jest.advanceTimersByTime(1000);
+      await store.addToSessionHistory('s3', message('q3', null));
+
+      expect((await store.listSessions(2)).map(session => session.id)).toEqual(['s3', 's2']);
+    });
+
+    it('deletes a session', async () => {
+      await expect(store.deleteSession('s1')).resolves.toBe(true);
+      await expect(store.deleteSession('s1')).resolves.toBe(false);
+      await expect(store.getSession('s1')).resolves.toBeNull();
+    });
+  });
+
+  describe('messages', () => {
+    it('stores feedback on a message, and reports unknown ones', async () => {
+      const feedback = { rating: 'down' as const, category: 'outdated' as const, createdAt: new Date() };
+
+      await expect(store.setMessageFeedback('s1', 'a1', feedback)).resolves.toMatchObject({ id: 'a1', feedback });
+      await expect(store.setMessageFeedback('s1', 'missing', feedback)).resolves.toBeNull();
+      expect((await store.getSessionHistory('s1'))[1].feedback).toEqual(feedback);
+    });
+
+    it('switches to the newest branch below a message', async () => {
+      await store.addToSessionHistory('s1', message('a1b', 'q1', 'assistant'));
+      expect(ids(await store.getSessionHistory('s1'))).toEqual(['q1', 'a1b']);
+
+      expect(ids((await store.setActiveBranch('s1', 'a1'))!)).toEqual(['q1', 'a1']);
+      expect(ids(await store.getSessionHistory('s1'))).toEqual(['q1', 'a1']);
+      await expect(store.setActiveBranch('s1', 'missing')).resolves.toBeNull();
+    });
+
+    it('moves replies of a deleted message up to its parent', async () => {
+      await store.addToSessionHistory('s1', message('q2', 'a1'));
+
+      await expect(store.deleteMessage('s1', 'a1')).resolves.toMatchObject({ id: 'a1' });
+      expect(ids(await store.getSessionHistory('s1'))).toEqual(['q1', 'q2']);
+    });
+
+    it('truncates everything below a message and returns what was removed', async () => {
+      await store.addToSessionHistory('s1', message('q2', 'a1'));
+      await store.addToSessionHistory('s1', message('a2', 'q2', 'assistant'));
+
+      expect(ids((await store.truncateSessionHistory('s1', 'a1'))!)).toEqual(['q2', 'a2']);
+      expect(ids(await store.getSessionHistory('s1'))).toEqual(['q1', 'a1']);
+      await expect(store.truncateSessionHistory('s1', 'missing')).resolves.toBeNull();
+    });
+  });
+
+  describe('cache values', () => {
+    it('evicts the least recently used values beyond the cap', async () => {
+      await store.set('a', '1', 60);
+      await store.set('b', '2', 60);
+      await store.get('a');
+      await store.set('c', '3', 60);
+
+      await expect(store.mget(['a', 'b', 'c'])).resolves.toEqual(['1', null, '3']);
+    });
+
+    it('never evicts values without an expiry', async () => {
+      await store.incr('version');
+      await store.set('a', '1', 60);
+      await store.set('b', '2', 60);
+      await store.set('c', '3', 60);
+
+      await expect(store.get('version')).resolves.toBe('1');
+    });
+
+    it('expires values after their TTL', async () => {
+      await store.set('a', '1', 10);
+      jest.advanceTimersByTime(10 * 1000);
+
+      await expect(store.get('a')).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { Database } from './database';
+import type { ChatMessage, MessageFeedback } from './llm';
+
+// Shapes of the JSON columns on chat_messages, checked again when they are read back
+const retrievalMetadataSchema = z.object({
+  documents: z.array(z.object({ id: z.string(), url: z.string(), score: z.number() })),
+  filter: z.object({
+    sources: z.array(z.string()).optional(),
+    from: z.string().optional(),
+    to: z.string().optional(),
+    urlPrefix: z.string().optional(),
+  }).optional(),
+  cache: z.enum(['exact', 'semantic']).nullable(), // answer served from a cache instead of the LLM
+  llm: z.object({ provider: z.string(), model: z.string(), temperature: z.number().optional() }), // temperature if overridden
+  embeddings: z.string(),
+});
+
+const sourcesSchema = z.array(z.object({ title: z.string(), url: z.string(), relevance: z.number() }));
+
+/** What produced an answer, kept with assistant messages for later analysis. */
+export type RetrievalMetadata = z.infer<typeof retrievalMetadataSchema>;
+
+export interface ArchivedExchange {
+  userId?: string;
+  title?: string; // only used when the session is first archived
+  question: ChatMessage;
+  answer: ChatMessage;
+  retrieval: RetrievalMetadata;
+}
+
+export interface SatisfactionBucket {
+  key: string; // day (YYYY-MM-DD), LLM provider or source domain
+  up: number;
+  down: number;
+  satisfaction: number | null; // share of ratings that are 'up', null without ratings
+}
+
+export interface FeedbackStats {
+  since: Date;
+  total: SatisfactionBucket;
+  byDay: SatisfactionBucket[];
+  byProvider: SatisfactionBucket[];
+  bySourceDomain: SatisfactionBucket[];
+}
+
+// Tallies ratings per key, e.g. per day
+class SatisfactionCounter {
+  private counts = new Map<string, { up: number; down: number }>();
+
+  add(key: string, rating: number): void {
+    const count = this.counts.get(key) ?? { up: 0, down: 0 };
+    if (rating > 0) count.up++;
+    else count.down++;
+    this.counts.set(key, count);
+  }
+
+  buckets(): SatisfactionBucket[] {
+    return Array.from(this.counts, ([key, { up, down }]) => toBucket(key, up, down));
+  }
+}
+
+function toBucket(key: string, up: number, down: number): SatisfactionBucket {
+  const total = up + down;
+  return { key, up, down, satisfaction: total > 0 ? Number((up / total).toFixed(3)) : null };
+}
+
+function sourceDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write-through archive of conversations in Postgres, enabled with
+ * `DATABASE_ENABLED`. Redis stays the hot store the chat route reads from;
+ * the archive only receives writes, and is read for feedback stats. A
+ * failed write is logged and never fails the request, so an unavailable
+ * database can't take chat down.
+ */
+class ConversationStoreClass {
+  get enabled(): boolean {
+    return config.database.enabled;
+  }
+
+  async connect(): Promise<void> {
+    if (!this.enabled) return;
+    await Database.connect();
+  }
+
+  async recordExchange(sessionId: string, exchange: ArchivedExchange): Promise<void> {
+    await this.write('record exchange', async prisma => {
+      const { userId, title, question, answer, retrieval } = exchange;
+
+      if (userId) {
+        await prisma.user.upsert({
+          where: { id: userId },
+          create: { id: userId },
+          update: {},
+        });
+      }
+
+      await prisma.$transaction([
+        prisma.chatSession.upsert({
+          where: { id: sessionId },
+          create: { id: sessionId, userId, title },
+          // Touch updatedAt; the title only changes through setTitle
+          update: { userId, updatedAt: new Date() },
+        }),
+        // A regenerated answer's question is already archived
+        prisma.chatMessage.upsert({
+          where: { id: question.id },
+          create: {
+            id: question.id,
+            sessionId,
+            role: question.role,
+            content: question.content,
+            parentId: question.parentId,
+            createdAt: question.timestamp,
+          },
+          update: {},
+        }),
+        prisma.chatMessage.create({
+          data: {
+            id: answer.id,
+            sessionId,
+            role: answer.role,
+            content: answer.content,
+            parentId: answer.parentId,
+            sources: answer.sources ?? Prisma.JsonNull,
+            retrieval,
+            createdAt: answer.timestamp,
+          },
+        }),
+      ]);
+    });
+  }
+
+  async setTitle(sessionId: string, title: string): Promise<void> {
+    await this.write('set session title', prisma =>
+      prisma.chatSession.updateMany({ where: { id: sessionId }, data: { title } })
+    );
+  }
+
+  // Resetting or deleting a chat only marks it, since the archive is kept for analysis
+  async markSessionDeleted(sessionId: string): Promise<void> {
+    await this.write('mark session deleted', prisma =>
+      prisma.chatSession.updateMany({ where: { id: sessionId, deletedAt: null }, data: { deletedAt: new Date() } })
+    );
+  }
+
+  // Deleted and truncated messages are marked the same way, and keep their feedback
+  async markMessagesDeleted(messageIds: string[]): Promise<void> {
+    if (messageIds.length === 0) return;
+
+    await this.write('mark messages deleted', prisma =>
+      prisma.chatMessage.updateMany({
+        where: { id: { in: messageIds }, deletedAt: null },
+        data: { deletedAt: new Date() },
+      })
+    );
+  }
+
+  async recordFeedback(messageId: string, feedback: MessageFeedback): Promise<void> {
+    await this.write('record feedback', async prisma => {
+      const message = await prisma.chatMessage.findUnique({
+        where: { id: messageId },
+        select: { session: { select: { userId: true } } },
+      });
+      if (!message) {
+        logger.warn('Feedback on a message missing from the conversation archive', { messageId });
+        return;
+      }
+
+      const data = {
+        rating: feedback.rating === 'up' ? 1 : -1,
+        category: feedback.category ?? null,
+        reason: feedback.reason ?? null,
+        createdAt: feedback.createdAt,
+      };
+      await prisma.feedback.upsert({
+        where: { messageId },
+        create: { messageId, userId: message.session.userId, ...data },
+        update: data,
+      });
+    });
+  }
+
+  /**
+   * Satisfaction rates for ratings given since `since`: overall, per day
+   * (UTC), per LLM provider that produced the answer, and per domain among
+   * the answer's sources. An answer citing several domains counts once for
+   * each of them.
+   */
+  async getFeedbackStats(since: Date): Promise<FeedbackStats> {
+    const prisma = await this.getClient();
+    const ratings = await prisma.feedback.findMany({
+      where: { createdAt: { gte: since } },
+      select: {
+        rating: true,
+        createdAt: true,
+        message: { select: { sources: true, retrieval: true } },
+      },
+    });
+
+    const byDay = new SatisfactionCounter();
+    const byProvider = new SatisfactionCounter();
+    const bySourceDomain = new SatisfactionCounter();
+    let up = 0;
+
+    for (const { rating, createdAt, message } of ratings) {
+      if (rating > 0) up++;
+      byDay.add(createdAt.toISOString().slice(0, 10), rating);
+
+      const retrieval = retrievalMetadataSchema.safeParse(message.retrieval);
+      byProvider.add(retrieval.success ? retrieval.data.llm.provider : 'unknown', rating);
+
+      const sources = sourcesSchema.safeParse(message.sources);
+      const domains = new Set(sources.success ? sources.data.map(source => sourceDomain(source.url)) : []);
+      for (const domain of domains) {
+        if (domain) bySourceDomain.add(domain, rating);
+      }
+    }
+
+    const mostRated = (a: SatisfactionBucket, b: SatisfactionBucket) => (b.up + b.down) - (a.up + a.down);
+    return {
+      since,
+      total: toBucket('all', up, ratings.length - up),
+      byDay: byDay.buckets().sort((a, b) => a.key.localeCompare(b.key)),
+      byProvider: byProvider.buckets().sort(mostRated),
+      bySourceDomain: bySourceDomain.buckets().sort(mostRated),
+    };
+  }
+
+  private async getClient(): Promise<PrismaClient> {
+    if (!this.enabled) throw new Error('Conversation archive is disabled');
+    await Database.connect();
+    return Database.client;
+  }
+
+  private async write(action: string, operation: (prisma: PrismaClient) => Promise<unknown>): Promise<void> {
+    if (!this.enabled) return;
+
+    try {
+      await operation(await this.getClient());
+    } catch (error) {
+      logger.warn(`Conversation archive failed to ${action}:`, error);
+    }
+  }
+}
+
+export const ConversationStore = new ConversationStoreClass();
@@ -0,0 +1,103 @@
+import type { ChatMessage } from './llm';
+
+/**
+ * Session history is a tree: every message points at the message it
+ * answers or follows with `parentId`, so edits and regenerations add
+ * alternatives next to the original instead of replacing it. Stores keep
+ * the messages in the order they were added, which is also the order
+ * siblings are listed in, plus the leaf of the active branch.
+ */
+export interface SessionTree {
+  messages: ChatMessage[];
+  activeLeafId: string | null;
+}
+
+/** A message as read from a store; those from before branching have no parentId. */
+export type StoredMessage = Omit<ChatMessage, 'parentId'> & { parentId?: string | null };
+
+// Messages stored before branching have no parentId and follow the one stored before them
+export function withParentIds(messages: StoredMessage[]): ChatMessage[] {
+  return messages.map((message, index) => ({
+    ...message,
+    parentId: message.parentId !== undefined
+      ? message.parentId
+      : index > 0 ? messages[index - 1].id : null,
+  }));
+}
+
+/**
+ * The messages from the root down to `leafId`. Without a known leaf, the
+ * branch ending at the most recently added message is used.
+ */
+export function pathTo(messages: ChatMessage[], leafId?: string | null): ChatMessage[] {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  let current: ChatMessage | undefined = (leafId ? byId.get(leafId) : undefined) ?? messages[messages.length - 1];
+
+  const path: ChatMessage[] = [];
+  while (current && !path.includes(current)) {
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/** Messages with the same parent as `message`, itself included, oldest first. */
+export function siblingsOf(messages: ChatMessage[], message: ChatMessage): ChatMessage[] {
+  return messages.filter(candidate => candidate.parentId === message.parentId);
+}
+
+/** The end of the newest branch below `messageId`, following the latest child at each step. */
+export function latestLeaf(messages: ChatMessage[], messageId: string): string {
+  let leafId = messageId;
+  const visited = new Set<string>();
+
+  while (!visited.has(leafId)) {
+    visited.add(leafId);
+    const children = messages.filter(message => message.parentId === leafId);
+    if (children.length === 0) break;
+    leafId = children[children.length - 1].id;
+  }
+  return leafId;
+}
+
+/** Ids of every message below `messageId`, in all branches. */
+export function descendantIds(messages: ChatMessage[], messageId: string): Set<string> {
+  const ids = new Set<string>();
+  const pending = [messageId];
+
+  while (pending.length > 0) {
+    const parentId = pending.pop();
+    for (const message of messages) {
+      if (message.parentId === parentId && !ids.has(message.id)) {
+        ids.add(message.id);
+        pending.push(message.id);
+      }
+    }
+  }
+  return ids;
+}
+
+/**
+ * Removes messages from a tree. Children of a removed message move up to
+ * its nearest remaining ancestor, and so does the active leaf if it was
+ * removed.
+ */
+export function removeMessages(tree: SessionTree, removedIds: Set<string>): SessionTree {
+  const byId = new Map(tree.messages.map(message => [message.id, message]));
+
+  const nearestRemaining = (id: string | null): string | null => {
+    const visited = new Set<string>();
+    while (id && removedIds.has(id) && !visited.has(id)) {
+      visited.add(id);
+      id = byId.get(id)?.parentId ?? null;
+    }
+    return id && removedIds.has(id) ? null : id;
+  };
+
+  return {
+    messages: tree.messages
+      .filter(message => !removedIds.has(message.id))
+      .map(message => ({ ...message, parentId: nearestRemaining(message.parentId) })),
+    activeLeafId: nearestRemaining(tree.activeLeafId),
+  };
+}
@@ -0,0 +1,40 @@
+import { PrismaClient } from '@prisma/client';
+import { config } from '../config/config';
+
+/**
+ * The Prisma client for `DATABASE_URL`. The conversation archive and the
+ * pgvector store both use it, so the database sees a single connection
+ * pool however many of them are enabled.
+ */
+class DatabaseClass {
+  private prisma?: PrismaClient;
+  private connecting?: Promise<void>;
+
+  get client(): PrismaClient {
+    if (!this.prisma) {
+      this.prisma = new PrismaClient({
+        datasources: { db: { url: config.database.url } },
+      });
+    }
+    return this.prisma;
+  }
+
+  // Prisma connects on the first query anyway; this surfaces a bad URL at startup
+  async connect(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.client.$connect().catch(error => {
+        this.connecting = undefined;
+        throw error;
+      });
+    }
+    await this.connecting;
+  }
+
+  async disconnect(): Promise<void> {
+    await this.prisma?.$disconnect();
+    this.prisma = undefined;
+    this.connecting = undefined;
+  }
+}
+
+export const Database = new DatabaseClass();
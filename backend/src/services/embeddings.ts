@@ -0,0 +1,364 @@
+import { createHash } from 'crypto';
+import OpenAI from 'openai';
+import { HfInference } from '@huggingface/inference';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { tokenize } from './keywordIndex';
+import { RedisClient } from './redis';
+
+interface JinaEmbeddingResponse {
+  data: Array<{
+    index: number;
+    embedding: number[];
+  }>;
+}
+
+export interface EmbeddingOptions {
+  bypassCache?: boolean; // always ask the provider, e.g. to check that it is reachable
+}
+
+const JINA_EMBEDDINGS_URL = 'https://api.jina.ai/v1/embeddings';
+
+const CACHE_KEY_PREFIX = 'embedding';
+
+// Output sizes of common models, so startup needs no probe request for them
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'jina-embeddings-v2-small-en': 512,
+  'jina-embeddings-v2-base-en': 768,
+  'jina-embeddings-v3': 1024,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+  'text-embedding-ada-002': 1536,
+  'sentence-transformers/all-MiniLM-L6-v2': 384,
+  'sentence-transformers/all-mpnet-base-v2': 768,
+  'Xenova/all-MiniLM-L6-v2': 384,
+  'Xenova/all-mpnet-base-v2': 768,
+  'Xenova/bge-small-en-v1.5': 384,
+  'Xenova/bge-base-en-v1.5': 768,
+};
+
+export class EmbeddingApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'EmbeddingApiError';
+  }
+}
+
+// 32-bit FNV-1a, a fast well-mixed hash for feature hashing
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map(value => value / norm);
+}
+
+// Rate limits and transient server errors are worth retrying, anything else is not
+function isRetryable(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  if (status === 429 || (status !== undefined && status >= 500)) return true;
+
+  const message = error instanceof Error ? error.message : '';
+  return /\b429\b|rate limit|too many requests/i.test(message);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+class EmbeddingServiceClass {
+  private openai?: OpenAI;
+  private huggingface?: HfInference;
+  private localPipeline?: Promise<FeatureExtractionPipeline>;
+  private dimensions?: Promise<number>;
+
+  constructor() {
+    this.initializeProviders();
+  }
+
+  private initializeProviders() {
+    if (config.embeddings.openai.apiKey) {
+      this.openai = new OpenAI({
+        apiKey: config.embeddings.openai.apiKey,
+      });
+    }
+
+    if (config.embeddings.huggingface.apiKey) {
+      this.huggingface = new HfInference(config.embeddings.huggingface.apiKey);
+    }
+  }
+
+  /**
+   * Provider-qualified model name, e.g. 'openai/text-embedding-3-small'.
+   * Vector stores record it to detect collections built with another model.
+   */
+  get model(): string {
+    const provider = config.embeddings.provider;
+    return provider === 'hashing'
+      ? `hashing/${config.embeddings.hashing.dimensions}d`
+      : `${provider}/${config.embeddings[provider].model}`;
+  }
+
+  /**
+   * Length of the vectors the configured model produces. Unknown models are
+   * probed once with a real embedding request.
+   */
+  getDimensions(): Promise<number> {
+    if (!this.dimensions) {
+      const provider = config.embeddings.provider;
+      const known = provider === 'hashing'
+        ? config.embeddings.hashing.dimensions
+        : KNOWN_DIMENSIONS[config.embeddings[provider].model];
+
+      this.dimensions = known !== undefined
+        ? Promise.resolve(known)
+        : this.generateEmbedding('dimension probe')
+          .then(embedding => {
+            logger.info(`Embedding dimensions probed for ${this.model}: ${embedding.length}`);
+            return embedding.length;
+          })
+          .catch(error => {
+            this.dimensions = undefined;
+            throw error;
+          });
+    }
+    return this.dimensions;
+  }
+
+  async generateEmbedding(text: string, options: EmbeddingOptions = {}): Promise<number[]> {
+    const [embedding] = await this.generateEmbeddings([text], options);
+    return embedding;
+  }
+
+  /**
+   * Embeds many texts, returning vectors in input order. Texts already in the
+   * cache are not sent to the provider; the rest go out in batches of
+   * `config.embeddings.batchSize`, at most `concurrency` batches at a time.
+   */
+  async generateEmbeddings(texts: string[], options: EmbeddingOptions = {}): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const keys = texts.map(text => this.cacheKey(text));
+    const embeddings = options.bypassCache
+      ? texts.map((): number[] | undefined => undefined)
+      : await this.readCache(keys);
+
+    const missing = embeddings
+      .map((embedding, index) => (embedding ? -1 : index))
+      .filter(index => index !== -1);
+
+    if (missing.length > 0) {
+      const { batchSize, concurrency } = config.embeddings;
+      const batches: number[][] = [];
+      for (let i = 0; i < missing.length; i += batchSize) {
+        batches.push(missing.slice(i, i + batchSize));
+      }
+
+      let next = 0;
+      const worker = async () => {
+        while (next < batches.length) {
+          const batch = batches[next++];
+          const vectors = await this.withRetry(() => this.embedBatch(batch.map(index => texts[index])));
+          batch.forEach((index, position) => {
+            embeddings[index] = vectors[position];
+          });
+          if (!options.bypassCache) {
+            await this.writeCache(batch.map(index => keys[index]), vectors);
+          }
+        }
+      };
+
+      await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker));
+    }
+
+    logger.debug('Embeddings generated', {
+      total: texts.length,
+      cached: texts.length - missing.length,
+    });
+
+    return embeddings as number[][];
+  }
+
+  private embedBatch(texts: string[]): Promise<number[][]> {
+    switch (config.embeddings.provider) {
+      case 'jina':
+        return this.generateWithJina(texts);
+      case 'openai':
+        return this.generateWithOpenAI(texts);
+      case 'huggingface':
+        return this.generateWithHuggingFace(texts);
+      case 'local':
+        return this.generateWithLocalModel(texts);
+      case 'hashing':
+        return Promise.resolve(texts.map(text => this.generateWithHashing(text)));
+      default:
+        throw new Error(`Unsupported embeddings provider: ${config.embeddings.provider}`);
+    }
+  }
+
+  private async withRetry<T>(operation: () => Promise<T>): Promise<T> {
+    const { maxRetries } = config.embeddings;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (attempt >= maxRetries || !isRetryable(error)) {
+          throw error;
+        }
+
+        // Exponential backoff with jitter: ~0.5s, 1s, 2s, 4s...
+        const delay = 500 * 2 ** attempt * (0.5 + Math.random());
+        logger.warn(`Embeddings request failed, retrying in ${Math.round(delay)}ms`, {
+          attempt: attempt + 1,
+          maxRetries,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Keyed on the model as well as content, so switching models never returns stale vectors
+  private cacheKey(text: string): string {
+    const hash = createHash('sha256').update(text).digest('hex');
+    return `${CACHE_KEY_PREFIX}:${this.model}:${hash}`;
+  }
+
+  // Cache failures are logged and treated as misses; they never fail an embedding request
+  private async readCache(keys: string[]): Promise<Array<number[] | undefined>> {
+    if (!config.embeddings.cacheEnabled) return keys.map(() => undefined);
+
+    try {
+      const values = await RedisClient.mget(keys);
+      return values.map(value => (value ? (JSON.parse(value) as number[]) : undefined));
+    } catch (error) {
+      logger.warn('Embedding cache read failed:', error);
+      return keys.map(() => undefined);
+    }
+  }
+
+  private async writeCache(keys: string[], embeddings: number[][]): Promise<void> {
+    if (!config.embeddings.cacheEnabled) return;
+
+    try {
+      await Promise.all(keys.map((key, index) =>
+        RedisClient.set(key, JSON.stringify(embeddings[index]), config.embeddings.cacheTtl)
+      ));
+    } catch (error) {
+      logger.warn('Embedding cache write failed:', error);
+    }
+  }
+
+  private async generateWithJina(texts: string[]): Promise<number[][]> {
+    if (!config.embeddings.jina.apiKey) {
+      throw new Error('Jina API key not configured');
+    }
+
+    const response = await fetch(JINA_EMBEDDINGS_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${config.embeddings.jina.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: config.embeddings.jina.model,
+        input: texts,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new EmbeddingApiError(`Jina embeddings API error: HTTP ${response.status}`, response.status);
+    }
+
+    const data = (await response.json()) as JinaEmbeddingResponse;
+    return data.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  private async generateWithOpenAI(texts: string[]): Promise<number[][]> {
+    if (!this.openai) {
+      throw new Error('OpenAI not initialized');
+    }
+
+    // The SDK retries on its own too; leave backoff to withRetry so batches share one policy
+    const response = await this.openai.embeddings.create(
+      {
+        model: config.embeddings.openai.model,
+        input: texts,
+      },
+      { maxRetries: 0 }
+    );
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+
+  private async generateWithHuggingFace(texts: string[]): Promise<number[][]> {
+    if (!this.huggingface) {
+      throw new Error('HuggingFace not initialized');
+    }
+
+    const output = await this.huggingface.featureExtraction({
+      model: config.embeddings.huggingface.model,
+      inputs: texts,
+    });
+
+    // Sentence-transformer models return one pooled vector per input
+    return output as number[][];
+  }
+
+  /**
+   * Runs a sentence-transformer through ONNX Runtime on CPU. The model is
+   * downloaded on first use (or read from `cacheDir`), after which no network
+   * access is needed.
+   */
+  private async generateWithLocalModel(texts: string[]): Promise<number[][]> {
+    const extractor = await this.getLocalPipeline();
+    const output = await extractor(texts, { pooling: 'mean', normalize: true });
+    return output.tolist() as number[][];
+  }
+
+  private getLocalPipeline(): Promise<FeatureExtractionPipeline> {
+    if (!this.localPipeline) {
+      const { model, cacheDir } = config.embeddings.local;
+      logger.info(`Loading local embeddings model: ${model}`);
+
+      // Loaded lazily so the other providers never pay for ONNX Runtime
+      this.localPipeline = import('@huggingface/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', model, { cache_dir: cacheDir }))
+        .catch(error => {
+          this.localPipeline = undefined;
+          throw error;
+        });
+    }
+    return this.localPipeline;
+  }
+
+  /**
+   * Deterministic bag-of-words embedding via signed feature hashing. It has no
+   * semantic understanding, only token overlap, but needs no model or key,
+   * which makes it suitable for tests and offline demos.
+   */
+  private generateWithHashing(text: string): number[] {
+    const dimensions = config.embeddings.hashing.dimensions;
+    const vector = new Array<number>(dimensions).fill(0);
+
+    for (const token of tokenize(text)) {
+      const hash = fnv1a(token);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % dimensions] += sign;
+    }
+
+    return normalize(vector);
+  }
+}
+
+export const EmbeddingService = new EmbeddingServiceClass();
@@ -0,0 +1,124 @@
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { RedisClient } from './redis';
+import { VectorStore } from './vectorStore';
+import { EmbeddingService } from './embeddings';
+import { SemanticCache, SemanticCacheStats } from './semanticCache';
+
+export type CheckStatus = 'pass' | 'fail';
+
+export interface DependencyCheck {
+  status: CheckStatus;
+  latencyMs: number;
+  message?: string;
+  details?: unknown;
+}
+
+export interface HealthReport {
+  status: 'ok' | 'unavailable';
+  timestamp: string;
+  uptimeSeconds: number;
+  checks: Record<string, DependencyCheck>;
+  caches: {
+    semantic: SemanticCacheStats;
+  };
+}
+
+const CHECK_TIMEOUT_MS = 5000;
+
+// Embedding checks call a paid API, so a result is reused for this long
+const EMBEDDING_CHECK_TTL_MS = 60 * 1000;
+
+class HealthServiceClass {
+  private embeddingCheck?: { result: DependencyCheck; checkedAt: number };
+
+  /**
+   * Runs every dependency check in parallel. The report is 'ok' only when
+   * all of them pass, i.e. when the RAG pipeline can actually answer.
+   */
+  async getReport(): Promise<HealthReport> {
+    const [redis, vectorStore, embeddings, llm] = await Promise.all([
+      this.runCheck(async () => {
+        await RedisClient.ping();
+        return { store: RedisClient.storeName };
+      }),
+      this.runCheck(() => VectorStore.getCollectionInfo()),
+      this.checkEmbeddings(),
+      this.checkLLM(),
+    ]);
+
+    const checks = { redis, vectorStore, embeddings, llm };
+    const healthy = Object.values(checks).every(check => check.status === 'pass');
+
+    return {
+      status: healthy ? 'ok' : 'unavailable',
+      timestamp: new Date().toISOString(),
+      uptimeSeconds: Math.round(process.uptime()),
+      checks,
+      caches: {
+        semantic: SemanticCache.getStats(),
+      },
+    };
+  }
+
+  private async runCheck(check: () => Promise<unknown>): Promise<DependencyCheck> {
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+
+    try {
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS}ms`)), CHECK_TIMEOUT_MS);
+      });
+      const details = await Promise.race([check(), timeout]);
+
+      return {
+        status: 'pass',
+        latencyMs: Date.now() - startedAt,
+        details: details ?? undefined,
+      };
+    } catch (error) {
+      return {
+        status: 'fail',
+        latencyMs: Date.now() - startedAt,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private async checkEmbeddings(): Promise<DependencyCheck> {
+    const cached = this.embeddingCheck;
+    if (cached && Date.now() - cached.checkedAt < EMBEDDING_CHECK_TTL_MS) {
+      return cached.result;
+    }
+
+    const result = await this.runCheck(async () => {
+      // A cached vector would keep reporting the provider as healthy through an outage
+      const embedding = await EmbeddingService.generateEmbedding('health check', { bypassCache: true });
+      return { provider: config.embeddings.provider, dimensions: embedding.length };
+    });
+
+    if (result.status === 'fail') {
+      logger.warn('Embedding provider health check failed', { message: result.message });
+    }
+
+    this.embeddingCheck = { result, checkedAt: Date.now() };
+    return result;
+  }
+
+  // Only checks that the provider is configured; a real completion per probe would be too costly
+  private async checkLLM(): Promise<DependencyCheck> {
+    const provider = config.llm.provider;
+    const apiKey = config.llm[provider].apiKey;
+
+    return {
+      status: apiKey ? 'pass' : 'fail',
+      latencyMs: 0,
+      message: apiKey ? undefined : `No API key configured for ${provider}`,
+      details: { provider, model: config.llm[provider].model },
+    };
+  }
+}
+
+export const HealthService = new HealthServiceClass();
@@ -0,0 +1,122 @@
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+import { DataIngestionService, IngestCancelledError, IngestProgress } from './ingestion';
+
+export type IngestJobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface IngestJob {
+  id: string;
+  status: IngestJobStatus;
+  maxArticles?: number;
+  progress: IngestProgress;
+  errorMessages: string[]; // most recent first, capped at MAX_ERROR_MESSAGES
+  error?: string; // why the job failed, when status is 'failed'
+  createdAt: string;
+  finishedAt?: string;
+}
+
+const MAX_ERROR_MESSAGES = 10;
+const MAX_FINISHED_JOBS = 20;
+
+/**
+ * Runs ingestion in the background of the server process. Jobs are kept in
+ * memory only, and at most one runs at a time since concurrent runs would
+ * fetch and embed the same feeds twice.
+ */
+class IngestJobManager {
+  private jobs = new Map<string, IngestJob>();
+  private controllers = new Map<string, AbortController>();
+  private ingestionService = new DataIngestionService();
+
+  getRunningJob(): IngestJob | undefined {
+    return Array.from(this.jobs.values()).find(job => job.status === 'running');
+  }
+
+  getJob(id: string): IngestJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  listJobs(): IngestJob[] {
+    return Array.from(this.jobs.values()).reverse();
+  }
+
+  start(options: { maxArticles?: number } = {}): IngestJob {
+    const running = this.getRunningJob();
+    if (running) {
+      throw new Error(`Ingestion job ${running.id} is already running`);
+    }
+
+    const job: IngestJob = {
+      id: uuidv4(),
+      status: 'running',
+      maxArticles: options.maxArticles,
+      progress: { articlesFetched: 0, chunksTotal: 0, chunksEmbedded: 0, errors: 0 },
+      errorMessages: [],
+      createdAt: new Date().toISOString(),
+    };
+    const controller = new AbortController();
+
+    this.jobs.set(job.id, job);
+    this.controllers.set(job.id, controller);
+    this.pruneFinishedJobs();
+
+    logger.info('Ingestion job started', { jobId: job.id, maxArticles: options.maxArticles });
+
+    // Not awaited: the job outlives the request that started it
+    this.run(job, controller.signal);
+
+    return job;
+  }
+
+  /**
+   * Requests cancellation. The job stops at its next checkpoint (between
+   * feeds or embedding batches), so chunks already stored are kept.
+   */
+  cancel(id: string): boolean {
+    const job = this.jobs.get(id);
+    const controller = this.controllers.get(id);
+    if (!job || job.status !== 'running' || !controller) {
+      return false;
+    }
+
+    controller.abort();
+    logger.info('Ingestion job cancellation requested', { jobId: id });
+    return true;
+  }
+
+  private async run(job: IngestJob, signal: AbortSignal): Promise<void> {
+    try {
+      job.progress = await this.ingestionService.ingestData({
+        maxArticles: job.maxArticles,
+        signal,
+        onProgress: progress => {
+          job.progress = progress;
+        },
+        onError: message => {
+          job.errorMessages = [message, ...job.errorMessages].slice(0, MAX_ERROR_MESSAGES);
+        },
+      });
+      job.status = 'completed';
+    } catch (error) {
+      if (error instanceof IngestCancelledError) {
+        job.status = 'cancelled';
+      } else {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+      }
+    } finally {
+      job.finishedAt = new Date().toISOString();
+      this.controllers.delete(job.id);
+      logger.info('Ingestion job finished', { jobId: job.id, status: job.status, progress: job.progress });
+    }
+  }
+
+  private pruneFinishedJobs(): void {
+    const finished = Array.from(this.jobs.values()).filter(job => job.status !== 'running');
+    for (const job of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS))) {
+      this.jobs.delete(job.id);
+    }
+  }
+}
+
+export const IngestJobs = new IngestJobManager();
@@ -0,0 +1,247 @@
+import Parser from 'rss-parser';
+import * as cheerio from 'cheerio';
+import { v5 as uuidv5 } from 'uuid';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { VectorStore, Document } from './vectorStore';
+
+interface Article {
+  title: string;
+  content: string;
+  url: string;
+  publishedAt: string;
+  source: string;
+}
+
+export interface IngestProgress {
+  articlesFetched: number;
+  chunksTotal: number;
+  chunksEmbedded: number;
+  errors: number;
+}
+
+export interface IngestOptions {
+  maxArticles?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: IngestProgress) => void;
+  onError?: (message: string) => void;
+}
+
+export class IngestCancelledError extends Error {
+  constructor() {
+    super('Ingestion cancelled');
+    this.name = 'IngestCancelledError';
+  }
+}
+
+const FETCH_TIMEOUT_MS = 10000;
+
+// Chunks are embedded and stored in batches so progress can be reported and cancellation honoured
+const EMBED_BATCH_SIZE = 50;
+
+export class DataIngestionService {
+  private parser = new Parser();
+
+  /**
+   * Fetches articles from the configured RSS feeds, chunks them and adds them
+   * to the vector store, which must already be initialized.
+   */
+  async ingestData(options: IngestOptions = {}): Promise<IngestProgress> {
+    const progress: IngestProgress = {
+      articlesFetched: 0,
+      chunksTotal: 0,
+      chunksEmbedded: 0,
+      errors: 0,
+    };
+
+    const reportError = (message: string) => {
+      progress.errors++;
+      options.onError?.(message);
+      options.onProgress?.({ ...progress });
+    };
+
+    logger.info('Starting data ingestion process...');
+
+    try {
+      const articles = await this.fetchArticles(options, progress, reportError);
+      logger.info(`Fetched ${articles.length} articles`);
+
+      const documents = this.processArticles(articles);
+      progress.chunksTotal = documents.length;
+      options.onProgress?.({ ...progress });
+      logger.info(`Processed ${documents.length} documents`);
+
+      for (let i = 0; i < documents.length; i += EMBED_BATCH_SIZE) {
+        this.throwIfCancelled(options.signal);
+
+        const batch = documents.slice(i, i + EMBED_BATCH_SIZE);
+        await VectorStore.addDocuments(batch);
+        progress.chunksEmbedded += batch.length;
+        options.onProgress?.({ ...progress });
+      }
+
+      logger.info('Data ingestion completed successfully', progress);
+      return progress;
+
+    } catch (error) {
+      if (error instanceof IngestCancelledError) {
+        logger.info('Data ingestion cancelled', progress);
+      } else {
+        logger.error('Data ingestion failed:', error);
+      }
+      throw error;
+    }
+  }
+
+  private throwIfCancelled(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new IngestCancelledError();
+    }
+  }
+
+  private async fetchArticles(
+    options: IngestOptions,
+    progress: IngestProgress,
+    reportError: (message: string) => void
+  ): Promise<Article[]> {
+    const articles: Article[] = [];
+    const maxArticles = options.maxArticles ?? config.ingest.maxArticles;
+    const maxArticlesPerFeed = Math.ceil(maxArticles / config.ingest.rssFeeds.length);
+
+    for (const feedUrl of config.ingest.rssFeeds) {
+      this.throwIfCancelled(options.signal);
+
+      try {
+        logger.info(`Fetching from feed: ${feedUrl}`);
+        const feed = await this.parser.parseURL(feedUrl);
+
+        const feedArticles = await Promise.all(
+          feed.items.slice(0, maxArticlesPerFeed).map(async (item) => {
+            const content = await this.extractContent(item.link || '');
+            return {
+              title: item.title || 'Untitled',
+              content,
+              url: item.link || '',
+              publishedAt: item.pubDate || new Date().toISOString(),
+              source: this.extractDomain(feedUrl),
+            };
+          })
+        );
+
+        const usable = feedArticles.filter(article => article.content.length > 100);
+        articles.push(...usable);
+        progress.articlesFetched += usable.length;
+        options.onProgress?.({ ...progress });
+
+      } catch (error) {
+        logger.error(`Error fetching from feed ${feedUrl}:`, error);
+        reportError(`Feed ${feedUrl}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return articles;
+  }
+
+  private async extractContent(url: string): Promise<string> {
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (compatible; RAG-Bot/1.0)',
+        },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const html = await response.text();
+      const $ = cheerio.load(html);
+
+      // Remove script and style elements
+      $('script, style, nav, header, footer, aside').remove();
+
+      // Try to find main content
+      const contentSelectors = [
+        'article',
+        '[role="main"]',
+        '.post-content',
+        '.article-content',
+        '.entry-content',
+        '.content',
+        'main',
+      ];
+
+      let content = '';
+      for (const selector of contentSelectors) {
+        const element = $(selector).first();
+        if (element.length > 0) {
+          content = element.text();
+          break;
+        }
+      }
+
+      // Fallback to body content
+      if (!content) {
+        content = $('body').text();
+      }
+
+      // Clean up the content
+      content = content.replace(/\s+/g, ' ').trim();
+
+      return content.slice(0, 10000); // Limit content length
+
+    } catch (error) {
+      logger.error(`Error extracting content from ${url}:`, error);
+      return '';
+    }
+  }
+
+  private extractDomain(url: string): string {
+    try {
+      return new URL(url).hostname;
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private processArticles(articles: Article[]): Document[] {
+    const documents: Document[] = [];
+
+    for (const article of articles) {
+      const chunks = this.chunkText(article.content);
+
+      for (let i = 0; i < chunks.length; i++) {
+        const doc: Document = {
+          // Derived from the URL so re-ingesting an article overwrites its chunks instead of
+          // duplicating them; a UUID because Qdrant only accepts UUIDs and integers as point ids
+          id: uuidv5(`${article.url}#${i}`, uuidv5.URL),
+          content: chunks[i],
+          metadata: {
+            title: article.title,
+            url: article.url,
+            timestamp: article.publishedAt,
+            source: article.source,
+          },
+        };
+        documents.push(doc);
+      }
+    }
+
+    return documents;
+  }
+
+  private chunkText(text: string): string[] {
+    const chunks: string[] = [];
+    const { chunkSize, chunkOverlap } = config.ingest;
+
+    for (let i = 0; i < text.length; i += chunkSize - chunkOverlap) {
+      const chunk = text.slice(i, i + chunkSize);
+      if (chunk.trim().length > 0) {
+        chunks.push(chunk.trim());
+      }
+    }
+
+    return chunks;
+  }
+}
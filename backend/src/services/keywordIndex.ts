@@ -0,0 +1,146 @@
+import { matchesFilter } from './vectorStores/filters';
+import type { Document, SearchFilter, SearchResult } from './vectorStores';
+
+// Okapi BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'is', 'it',
+  'its', 'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'what', 'when', 'which',
+  'who', 'will', 'with',
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 0 && !STOP_WORDS.has(token));
+}
+
+interface IndexedDocument {
+  document: Document;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * In-process BM25 index over the same chunks as the vector store. Dense
+ * embeddings blur exact tokens such as names, tickers and acronyms, which
+ * this ranks directly.
+ */
+export class KeywordIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private documentFrequencies = new Map<string, number>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  add(documents: Document[]): void {
+    for (const document of documents) {
+      this.remove(document.id);
+
+      const tokens = tokenize(`${document.metadata.title} ${document.content}`);
+      const termFrequencies = new Map<string, number>();
+      for (const token of tokens) {
+        termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+      }
+
+      for (const term of termFrequencies.keys()) {
+        this.documentFrequencies.set(term, (this.documentFrequencies.get(term) ?? 0) + 1);
+      }
+
+      this.documents.set(document.id, { document, termFrequencies, length: tokens.length });
+      this.totalLength += tokens.length;
+    }
+  }
+
+  remove(id: string): void {
+    const indexed = this.documents.get(id);
+    if (!indexed) return;
+
+    for (const term of indexed.termFrequencies.keys()) {
+      const frequency = (this.documentFrequencies.get(term) ?? 1) - 1;
+      if (frequency > 0) {
+        this.documentFrequencies.set(term, frequency);
+      } else {
+        this.documentFrequencies.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= indexed.length;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.documentFrequencies.clear();
+    this.totalLength = 0;
+  }
+
+  search(query: string, topK: number, filter?: SearchFilter): SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.size === 0) return [];
+
+    const averageLength = this.totalLength / this.documents.size;
+    const results: SearchResult[] = [];
+
+    for (const { document, termFrequencies, length } of this.documents.values()) {
+      if (!matchesFilter(document.metadata, filter)) continue;
+
+      let score = 0;
+      for (const term of terms) {
+        const frequency = termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const documentFrequency = this.documentFrequencies.get(term) ?? 0;
+        const idf = Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+      }
+
+      if (score > 0) {
+        results.push({
+          id: document.id,
+          content: document.content,
+          metadata: document.metadata,
+          score,
+        });
+      }
+    }
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+}
+
+/**
+ * Weighted reciprocal rank fusion of vector and keyword rankings, with
+ * smoothing constant `k`. Scores are scaled so that a document ranked
+ * first by both retrievers scores 1.
+ */
+export function reciprocalRankFusion(
+  vectorResults: SearchResult[],
+  keywordResults: SearchResult[],
+  vectorWeight: number,
+  k: number
+): SearchResult[] {
+  const fused = new Map<string, SearchResult>();
+
+  const accumulate = (results: SearchResult[], weight: number) => {
+    results.forEach((result, rank) => {
+      const contribution = (weight * (k + 1)) / (k + rank + 1);
+      const existing = fused.get(result.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(result.id, { ...result, score: contribution });
+      }
+    });
+  };
+
+  accumulate(vectorResults, vectorWeight);
+  accumulate(keywordResults, 1 - vectorWeight);
+
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+}
@@ -3,8 +3,21 @@ import OpenAI from 'openai';
 import { HfInference } from '@huggingface/inference';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
+import { pathTo } from './conversationTree';
+
+export type FeedbackRating = 'up' | 'down';
+export type FeedbackCategory = 'wrong' | 'outdated' | 'missing_source';
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reason?: string;
+  category?: FeedbackCategory;
+  createdAt: Date;
+}
 
 export interface ChatMessage {
+  id: string; // generated by the server when the message is stored
+  parentId: string | null; // message this one follows in the conversation tree
   role: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
@@ -13,6 +26,7 @@ export interface ChatMessage {
     url: string;
     relevance: number;
   }>;
+  feedback?: MessageFeedback; // assistant messages the user rated
 }
 
 export interface RetrievedDocument {
@@ -26,11 +40,20 @@ export interface RetrievedDocument {
   score: number;
 }
 
+export type LLMProvider = 'gemini' | 'openai' | 'huggingface';
+
+/** Per-request overrides of the configured provider and sampling temperature. */
+export interface GenerationOptions {
+  provider?: LLMProvider;
+  temperature?: number;
+}
+
 export interface GenerateResponseParams {
   message: string;
-  history: ChatMessage[];
+  history: ChatMessage[]; // the branch ending at the message's parent
   context: RetrievedDocument[];
   sessionId: string;
+  options?: GenerationOptions;
 }
 
 export interface LLMResponse {
@@ -42,8 +65,11 @@ export interface LLMResponse {
   }>;
   streaming?: boolean;
   stream?: AsyncGenerator<string>;
+  error?: boolean; // content is the fallback apology after a provider failure, not an answer
 }
 
+const DEFAULT_TEMPERATURE = 0.7;
+
 class LLMServiceClass {
   private gemini?: GoogleGenerativeAI;
   private openai?: OpenAI;
@@ -75,8 +101,20 @@ class LLMServiceClass {
     }
   }
 
+  /** Whether a provider has an API key and can be used for generation. */
+  isAvailable(provider: LLMProvider): boolean {
+    switch (provider) {
+      case 'gemini':
+        return this.gemini !== undefined;
+      case 'openai':
+        return this.openai !== undefined;
+      case 'huggingface':
+        return this.huggingface !== undefined;
+    }
+  }
+
   async generateResponse(params: GenerateResponseParams): Promise<LLMResponse> {
-    const { message, history, context, sessionId } = params;
+    const { message, history, context, sessionId, options = {} } = params;
 
     try {
       // Build context from retrieved documents
@@ -88,35 +126,16 @@ class LLMServiceClass {
       // Generate system prompt
       const systemPrompt = this.buildSystemPrompt(contextText);
 
-      let response: LLMResponse;
-
-      switch (config.llm.provider) {
-        case 'gemini':
-          response = await this.generateWithGemini(message, conversationHistory, systemPrompt);
-          break;
-        case 'openai':
-          response = await this.generateWithOpenAI(message, conversationHistory, systemPrompt);
-          break;
-        case 'huggingface':
-          response = await this.generateWithHuggingFace(message, conversationHistory, systemPrompt);
-          break;
-        default:
-          throw new Error(`Unsupported LLM provider: ${config.llm.provider}`);
-      }
+      const stream = await this.generateStream(message, conversationHistory, systemPrompt, options);
 
       // Add sources from retrieved documents
-      response.sources = context.map(doc => ({
-        title: doc.metadata.title,
-        url: doc.metadata.url,
-        relevance: doc.score,
-      }));
-
-      logger.info('LLM response generated', {
-        sessionId,
-        provider: config.llm.provider,
-        responseLength: response.content.length,
-        sourcesCount: response.sources.length,
-      });
+      const response: LLMResponse = {
+        content: '',
+        sources: this.buildSources(context),
+        streaming: true,
+      };
+
+      response.stream = this.collectStream(stream, response, sessionId, options.provider ?? config.llm.provider);
 
       return response;
 
@@ -127,38 +146,114 @@ class LLMServiceClass {
       return {
         content: 'I apologize, but I encountered an error while processing your request. Please try again.',
         sources: [],
+        error: true,
       };
     }
   }
 
+  /**
+   * One-shot, non-streaming completion for internal tasks such as reranking.
+   * Unlike generateResponse, errors are thrown rather than replaced by a fallback.
+   */
+  async complete(instructions: string, input: string): Promise<string> {
+    const stream = await this.generateStream(input, '', instructions);
+
+    let text = '';
+    for await (const chunk of stream) {
+      text += chunk;
+    }
+    return text.trim();
+  }
+
+  /**
+   * A short title for a conversation, derived from its first exchange.
+   */
+  async generateTitle(message: string, answer: string): Promise<string> {
+    const title = await this.complete(
+      'Write a title of at most six words for a chat that starts with the exchange below. ' +
+      'Reply with the title only, without quotes or trailing punctuation.',
+      `User: ${message}\nAssistant: ${answer.slice(0, 1000)}`
+    );
+    return title.replace(/^["'\s]+|["'.\s]+$/g, '').slice(0, 100);
+  }
+
+  /**
+   * Passes provider tokens through while assembling the full reply into
+   * `response.content`, which is only complete once the stream is drained.
+   */
+  private async *collectStream(
+    stream: AsyncGenerator<string>,
+    response: LLMResponse,
+    sessionId: string,
+    provider: LLMProvider
+  ): AsyncGenerator<string> {
+    for await (const chunk of stream) {
+      response.content += chunk;
+      yield chunk;
+    }
+
+    logger.info('LLM response generated', {
+      sessionId,
+      provider,
+      responseLength: response.content.length,
+      sourcesCount: response.sources.length,
+    });
+  }
+
+  private async generateStream(
+    message: string,
+    history: string,
+    systemPrompt: string,
+    options: GenerationOptions = {}
+  ): Promise<AsyncGenerator<string>> {
+    const provider = options.provider ?? config.llm.provider;
+    const temperature = options.temperature ?? DEFAULT_TEMPERATURE;
+
+    switch (provider) {
+      case 'gemini':
+        return this.generateWithGemini(message, history, systemPrompt, temperature);
+      case 'openai':
+        return this.generateWithOpenAI(message, history, systemPrompt, temperature);
+      case 'huggingface':
+        return this.generateWithHuggingFace(message, history, systemPrompt, temperature);
+      default:
+        throw new Error(`Unsupported LLM provider: ${provider}`);
+    }
+  }
+
   private async generateWithGemini(
     message: string,
     history: string,
-    systemPrompt: string
-  ): Promise<LLMResponse> {
+    systemPrompt: string,
+    temperature: number
+  ): Promise<AsyncGenerator<string>> {
     if (!this.gemini) {
       throw new Error('Gemini not initialized');
     }
 
-    const model = this.gemini.getGenerativeModel({ model: config.llm.gemini.model });
+    const model = this.gemini.getGenerativeModel({
+      model: config.llm.gemini.model,
+      generationConfig: { temperature },
+    });
 
     const prompt = `${systemPrompt}\\n\\nConversation History:\\n${history}\\n\\nUser: ${message}\\n\\nAssistant:`;
 
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    const text = response.text();
+    const result = await model.generateContentStream(prompt);
 
-    return {
-      content: text,
-      sources: [],
-    };
+    return (async function* () {
+      for await (const chunk of result.stream) {
+        const text = chunk.text();
+        if (text) yield text;
+      }
+    })();
   }
 
   private async generateWithOpenAI(
     message: string,
     history: string,
-    systemPrompt: string
-  ): Promise<LLMResponse> {
+    systemPrompt: string,
+    temperature: number
+  ): Promise<AsyncGenerator<string>> {
     if (!this.openai) {
       throw new Error('OpenAI not initialized');
     }
@@ -171,41 +266,65 @@ class LLMServiceClass {
     const completion = await this.openai.chat.completions.create({
       model: config.llm.openai.model,
       messages,
-      temperature: 0.7,
+      temperature,
       max_tokens: 1000,
+      stream: true,
     });
 
-    return {
-      content: completion.choices[0]?.message?.content || 'No response generated',
-      sources: [],
-    };
+    return (async function* () {
+      for await (const chunk of completion) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    })();
   }
 
   private async generateWithHuggingFace(
     message: string,
     history: string,
-    systemPrompt: string
-  ): Promise<LLMResponse> {
+    systemPrompt: string,
+    temperature: number
+  ): Promise<AsyncGenerator<string>> {
     if (!this.huggingface) {
       throw new Error('HuggingFace not initialized');
     }
 
     const prompt = `${systemPrompt}\\n\\nConversation History:\\n${history}\\n\\nUser: ${message}\\n\\nAssistant:`;
 
-    const response = await this.huggingface.textGeneration({
+    const stream = this.huggingface.textGenerationStream({
       model: config.llm.huggingface.model,
       inputs: prompt,
       parameters: {
         max_new_tokens: 1000,
-        temperature: 0.7,
+        temperature,
         return_full_text: false,
       },
     });
 
-    return {
-      content: response.generated_text,
-      sources: [],
-    };
+    return (async function* () {
+      for await (const output of stream) {
+        if (!output.token.special && output.token.text) yield output.token.text;
+      }
+    })();
+  }
+
+  // Several chunks of one article collapse into a single source with the best relevance
+  private buildSources(context: RetrievedDocument[]): LLMResponse['sources'] {
+    const sources = new Map<string, LLMResponse['sources'][number]>();
+
+    for (const doc of context) {
+      const key = doc.metadata.url || doc.id;
+      const existing = sources.get(key);
+      if (!existing || doc.score > existing.relevance) {
+        sources.set(key, {
+          title: doc.metadata.title,
+          url: doc.metadata.url,
+          relevance: doc.score,
+        });
+      }
+    }
+
+    return Array.from(sources.values()).sort((a, b) => b.relevance - a.relevance);
   }
 
   private buildContextText(context: RetrievedDocument[]): string {
@@ -218,8 +337,9 @@ class LLMServiceClass {
       .join('\\n');
   }
 
+  // Only the branch ending at the last message counts, even if alternatives were passed in
   private buildConversationHistory(history: ChatMessage[]): string {
-    return history
+    return pathTo(history)
       .slice(-5) // Keep last 5 messages for context
       .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
       .join('\\n');
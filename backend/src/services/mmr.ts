@@ -0,0 +1,69 @@
+import { tokenize } from './keywordIndex';
+import { cosineSimilarity } from './vectorStores/memory';
+import type { SearchResult } from './vectorStores';
+
+// Results found only by the keyword index carry no vector, so fall back to token overlap
+function similarity(a: SearchResult, b: SearchResult): number {
+  if (a.vector && b.vector) {
+    return cosineSimilarity(a.vector, b.vector);
+  }
+
+  const tokensA = new Set(tokenize(a.content));
+  const tokensB = new Set(tokenize(b.content));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+/**
+ * Maximal Marginal Relevance: greedily picks `k` results, each maximising
+ * `lambda * relevance - (1 - lambda) * similarity to those already picked`.
+ * Relevance is the candidates' score rescaled to 0-1, so it works on any
+ * retriever's scores. Selected results keep their original score.
+ */
+export function maximalMarginalRelevance(
+  candidates: SearchResult[],
+  k: number,
+  lambda: number
+): SearchResult[] {
+  if (candidates.length <= 1) return candidates.slice(0, k);
+
+  const scores = candidates.map(candidate => candidate.score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min || 1;
+  const relevance = scores.map(score => (score - min) / range);
+
+  const remaining = candidates.map((_, index) => index);
+  const maxSimilarity = new Array<number>(candidates.length).fill(0);
+  const selected: SearchResult[] = [];
+
+  while (selected.length < k && remaining.length > 0) {
+    let best = 0;
+    let bestValue = -Infinity;
+
+    remaining.forEach((candidateIndex, position) => {
+      const value = lambda * relevance[candidateIndex] - (1 - lambda) * maxSimilarity[candidateIndex];
+      if (value > bestValue) {
+        bestValue = value;
+        best = position;
+      }
+    });
+
+    const [chosenIndex] = remaining.splice(best, 1);
+    const chosen = candidates[chosenIndex];
+    selected.push(chosen);
+
+    for (const candidateIndex of remaining) {
+      maxSimilarity[candidateIndex] = Math.max(
+        maxSimilarity[candidateIndex],
+        similarity(candidates[candidateIndex], chosen)
+      );
+    }
+  }
+
+  return selected;
+}
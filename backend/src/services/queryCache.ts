@@ -0,0 +1,118 @@
+import { createHash } from 'crypto';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { RedisClient } from './redis';
+import type { LLMResponse } from './llm';
+import type { SearchResult } from './vectorStores';
+
+export interface CachedAnswer {
+  content: string;
+  sources: LLMResponse['sources'];
+}
+
+const KEY_PREFIX = 'query-cache';
+
+// Bumped on every change to the collection. Keys embed it, so old entries are never read again and expire on their own.
+const VERSION_KEY = `${KEY_PREFIX}:version`;
+
+/**
+ * Lowercases, collapses whitespace and drops trailing punctuation, so
+ * "What's new in AI?" and "what's new in ai" share an entry.
+ */
+export function normalizeQuery(query: string): string {
+  return query
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[\s?!.]+$/, '');
+}
+
+// JSON with sorted object keys, so equal parameters always hash the same
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Redis cache for retrieval results and, optionally, final answers. Entries
+ * live for `config.redis.queryTtl` and are keyed on the normalized query,
+ * every parameter that affects the result and the collection version. Redis
+ * errors are logged and treated as misses.
+ */
+class QueryCacheClass {
+  async getRetrieval(query: string, params: object): Promise<SearchResult[] | null> {
+    if (!config.queryCache.enabled) return null;
+    return this.read<SearchResult[]>('retrieval', query, params);
+  }
+
+  async setRetrieval(query: string, params: object, results: SearchResult[]): Promise<void> {
+    if (!config.queryCache.enabled) return;
+    await this.write('retrieval', query, params, results);
+  }
+
+  async getAnswer(query: string, params: object): Promise<CachedAnswer | null> {
+    if (!config.queryCache.answers) return null;
+    return this.read<CachedAnswer>('answer', query, params);
+  }
+
+  async setAnswer(query: string, params: object, answer: CachedAnswer): Promise<void> {
+    if (!config.queryCache.answers) return;
+    await this.write('answer', query, params, answer);
+  }
+
+  /**
+   * Makes every cached entry unreachable. Called whenever documents are
+   * added to or removed from the collection, including by other processes
+   * such as the ingest script.
+   */
+  async invalidate(): Promise<void> {
+    try {
+      await RedisClient.incr(VERSION_KEY);
+    } catch (error) {
+      logger.warn('Query cache invalidation failed:', error);
+    }
+  }
+
+  /** Current collection version; changes whenever cached results may be stale. */
+  async getVersion(): Promise<string> {
+    return (await RedisClient.get(VERSION_KEY)) ?? '0';
+  }
+
+  private async key(kind: string, query: string, params: object): Promise<string> {
+    const version = await this.getVersion();
+    const hash = createHash('sha256')
+      .update(canonicalJson({ query: normalizeQuery(query), params }))
+      .digest('hex');
+    return `${KEY_PREFIX}:${kind}:v${version}:${hash}`;
+  }
+
+  private async read<T>(kind: string, query: string, params: object): Promise<T | null> {
+    try {
+      const value = await RedisClient.get(await this.key(kind, query, params));
+      logger.debug(`Query cache ${value ? 'hit' : 'miss'}`, { kind });
+      return value ? (JSON.parse(value) as T) : null;
+    } catch (error) {
+      logger.warn('Query cache read failed:', error);
+      return null;
+    }
+  }
+
+  private async write(kind: string, query: string, params: object, value: unknown): Promise<void> {
+    try {
+      await RedisClient.set(await this.key(kind, query, params), JSON.stringify(value), config.redis.queryTtl);
+    } catch (error) {
+      logger.warn('Query cache write failed:', error);
+    }
+  }
+}
+
+export const QueryCache = new QueryCacheClass();
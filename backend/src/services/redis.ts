@@ -0,0 +1,752 @@
+import { createHash } from 'crypto';
+import Redis from 'ioredis';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import type { ChatMessage, MessageFeedback } from './llm';
+import {
+  descendantIds,
+  latestLeaf,
+  pathTo,
+  removeMessages,
+  SessionTree,
+  StoredMessage,
+  withParentIds,
+} from './conversationTree';
+
+export type TitleSource = 'message' | 'generated' | 'user';
+
+export interface SessionInfo {
+  id: string;
+  title: string;
+  titleSource: TitleSource; // first message until a title is generated or the user renames it
+  createdAt: Date;
+  updatedAt: Date;
+  messageCount: number; // every stored message, including other branches
+}
+
+/**
+ * Conversation history per session, stored as a tree of messages (see
+ * conversationTree.ts). Every read or write pushes the session's expiry
+ * `sessionTtl` seconds into the future.
+ */
+export interface SessionStore {
+  /** The active branch, from the first message to the active leaf. */
+  getSessionHistory(sessionId: string): Promise<ChatMessage[]>;
+  /** Every message in every branch, in the order they were added. */
+  getSessionTree(sessionId: string): Promise<SessionTree>;
+  /** Adds a message below its `parentId` and makes it the active leaf. */
+  addToSessionHistory(sessionId: string, message: ChatMessage): Promise<void>;
+  /**
+   * Makes the newest branch through `messageId` active. Returns the new
+   * active branch, or null if the session has no message with that id.
+   */
+  setActiveBranch(sessionId: string, messageId: string): Promise<ChatMessage[] | null>;
+  /** Most recently updated first. */
+  listSessions(limit: number): Promise<SessionInfo[]>;
+  getSession(sessionId: string): Promise<SessionInfo | null>;
+  /**
+   * Returns false if the session does not exist. A generated title never
+   * replaces one the user chose.
+   */
+  setSessionTitle(sessionId: string, title: string, source: TitleSource): Promise<boolean>;
+  /** Removes history and metadata; returns false if the session did not exist. */
+  deleteSession(sessionId: string): Promise<boolean>;
+  /**
+   * Stores feedback on a message, replacing any earlier rating. Returns the
+   * updated message, or null if the session has no message with that id.
+   */
+  setMessageFeedback(sessionId: string, messageId: string, feedback: MessageFeedback): Promise<ChatMessage | null>;
+  /**
+   * Removes one message; its replies move up to its parent. Returns the
+   * removed message, or null if the session has no message with that id.
+   */
+  deleteMessage(sessionId: string, messageId: string): Promise<ChatMessage | null>;
+  /**
+   * Removes every message below `messageId` in all branches, keeping that
+   * message. Returns the removed messages, or null if the session has no
+   * message with that id.
+   */
+  truncateSessionHistory(sessionId: string, messageId: string): Promise<ChatMessage[] | null>;
+}
+
+/**
+ * String key-value storage with optional expiry, used by the embedding and
+ * query caches.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  mget(keys: string[]): Promise<Array<string | null>>;
+  set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+  incr(key: string): Promise<number>;
+}
+
+export interface StoreBackend extends SessionStore, KeyValueStore {
+  readonly name: 'redis' | 'memory';
+  ping(): Promise<void>;
+  close(): Promise<void>;
+}
+
+const sessionKey = (sessionId: string) => `session:${sessionId}`;
+const sessionMetaKey = (sessionId: string) => `session-meta:${sessionId}`;
+
+// Sorted set of session ids scored by last update, for listing
+const SESSION_INDEX_KEY = 'sessions';
+
+const MAX_MESSAGE_TITLE_LENGTH = 60;
+
+// Replaces a history entry only if it still holds the expected message, so a delete or
+// truncate landing in between can't make the write hit another message
+const SET_MESSAGE_IF_UNCHANGED = `
+if redis.call('LINDEX', KEYS[1], ARGV[1]) ~= ARGV[2] then return 0 end
+redis.call('LSET', KEYS[1], ARGV[1], ARGV[3])
+redis.call('EXPIRE', KEYS[1], ARGV[4])
+redis.call('EXPIRE', KEYS[2], ARGV[4])
+return 1
+`;
+
+// Attempts at storing feedback while the history keeps changing underneath
+const MAX_FEEDBACK_ATTEMPTS = 3;
+
+// Until a proper title exists, sessions are named after their first message
+function titleFromMessage(content: string): string {
+  const text = content.trim().replace(/\s+/g, ' ');
+  return text.length > MAX_MESSAGE_TITLE_LENGTH
+    ? `${text.slice(0, MAX_MESSAGE_TITLE_LENGTH - 1)}…`
+    : text;
+}
+
+// Messages stored before ids were assigned get one derived from their content, which stays stable
+function legacyMessageId(message: Pick<ChatMessage, 'role' | 'timestamp' | 'content'>): string {
+  return createHash('sha256')
+    .update(`${message.role}\n${new Date(message.timestamp).toISOString()}\n${message.content}`)
+    .digest('hex')
+    .slice(0, 32);
+}
+
+function parseMessage(raw: string): StoredMessage {
+  const message = JSON.parse(raw) as StoredMessage;
+  return {
+    ...message,
+    id: message.id ?? legacyMessageId(message),
+    timestamp: new Date(message.timestamp),
+    feedback: message.feedback && { ...message.feedback, createdAt: new Date(message.feedback.createdAt) },
+  };
+}
+
+const readMessages = (entries: string[]): ChatMessage[] => withParentIds(entries.map(parseMessage));
+
+export class RedisSessionStore implements StoreBackend {
+  readonly name = 'redis';
+
+  private constructor(private redis: Redis, private sessionTtl: number) {}
+
+  static async connect(url: string, sessionTtl: number): Promise<RedisSessionStore> {
+    const redis = new Redis(url, {
+      lazyConnect: true,
+      connectTimeout: 5000,
+      maxRetriesPerRequest: 2,
+    });
+    redis.on('error', error => logger.error('Redis error:', error));
+
+    try {
+      await redis.connect();
+    } catch (error) {
+      // Stop the client from reconnecting in the background
+      redis.disconnect();
+      throw error;
+    }
+
+    return new RedisSessionStore(redis, sessionTtl);
+  }
+
+  async getSessionHistory(sessionId: string): Promise<ChatMessage[]> {
+    const { messages, activeLeafId } = await this.getSessionTree(sessionId);
+    return pathTo(messages, activeLeafId);
+  }
+
+  async getSessionTree(sessionId: string): Promise<SessionTree> {
+    const key = sessionKey(sessionId);
+    const metaKey = sessionMetaKey(sessionId);
+    const results = await this.redis.multi()
+      .lrange(key, 0, -1)
+      .hget(metaKey, 'activeLeafId')
+      .expire(key, this.sessionTtl)
+      .expire(metaKey, this.sessionTtl)
+      .exec();
+
+    const [[listError, entries], [leafError, activeLeafId]] = results ?? [[null, []], [null, null]];
+    if (listError || leafError) throw listError ?? leafError;
+    return {
+      messages: readMessages(entries as string[]),
+      activeLeafId: activeLeafId as string | null,
+    };
+  }
+
+  async addToSessionHistory(sessionId: string, message: ChatMessage): Promise<void> {
+    const key = sessionKey(sessionId);
+    const metaKey = sessionMetaKey(sessionId);
+    const now = Date.now();
+
+    const transaction = this.redis.multi()
+      .rpush(key, JSON.stringify(message))
+      .expire(key, this.sessionTtl)
+      .hsetnx(metaKey, 'createdAt', String(now))
+      .hset(metaKey, { updatedAt: String(now), activeLeafId: message.id });
+
+    if (message.role === 'user') {
+      transaction
+        .hsetnx(metaKey, 'title', titleFromMessage(message.content))
+        .hsetnx(metaKey, 'titleSource', 'message');
+    }
+
+    await transaction
+      .expire(metaKey, this.sessionTtl)
+      .zadd(SESSION_INDEX_KEY, now, sessionId)
+      .exec();
+  }
+
+  async setActiveBranch(sessionId: string, messageId: string): Promise<ChatMessage[] | null> {
+    const { messages } = await this.getSessionTree(sessionId);
+    if (!messages.some(message => message.id === messageId)) return null;
+
+    const activeLeafId = latestLeaf(messages, messageId);
+    const metaKey = sessionMetaKey(sessionId);
+    await this.redis.multi()
+      .hset(metaKey, 'activeLeafId', activeLeafId)
+      .expire(sessionKey(sessionId), this.sessionTtl)
+      .expire(metaKey, this.sessionTtl)
+      .exec();
+    return pathTo(messages, activeLeafId);
+  }
+
+  async listSessions(limit: number): Promise<SessionInfo[]> {
+    const sessions: SessionInfo[] = [];
+
+    // Reads keep a session alive without changing its score, so index entries
+    // are only dropped once their session is found to have expired
+    let start = 0;
+    while (sessions.length < limit) {
+      const ids = await this.redis.zrevrange(SESSION_INDEX_KEY, start, start + limit - 1);
+      if (ids.length === 0) break;
+
+      const found = await Promise.all(ids.map(id => this.getSession(id)));
+      const expired = ids.filter((_, index) => found[index] === null);
+      if (expired.length > 0) {
+        await this.redis.zrem(SESSION_INDEX_KEY, ...expired);
+      }
+
+      sessions.push(...found.filter((session): session is SessionInfo => session !== null));
+      start += ids.length - expired.length;
+    }
+
+    return sessions.slice(0, limit);
+  }
+
+  async getSession(sessionId: string): Promise<SessionInfo | null> {
+    const results = await this.redis.multi()
+      .hgetall(sessionMetaKey(sessionId))
+      .llen(sessionKey(sessionId))
+      .exec();
+
+    const [[metaError, meta], [countError, messageCount]] = results ?? [[null, {}], [null, 0]];
+    if (metaError || countError) throw metaError ?? countError;
+
+    const fields = meta as Record<string, string>;
+    if (!fields.createdAt) return null;
+
+    return {
+      id: sessionId,
+      title: fields.title ?? 'New chat',
+      titleSource: (fields.titleSource ?? 'message') as TitleSource,
+      createdAt: new Date(Number(fields.createdAt)),
+      updatedAt: new Date(Number(fields.updatedAt ?? fields.createdAt)),
+      messageCount: messageCount as number,
+    };
+  }
+
+  async setSessionTitle(sessionId: string, title: string, source: TitleSource): Promise<boolean> {
+    const metaKey = sessionMetaKey(sessionId);
+    const [exists, currentSource] = await Promise.all([
+      this.redis.hexists(metaKey, 'createdAt'),
+      this.redis.hget(metaKey, 'titleSource'),
+    ]);
+
+    if (!exists) return false;
+    if (source !== 'user' && currentSource === 'user') return true;
+
+    await this.redis.multi()
+      .hset(metaKey, { title, titleSource: source })
+      .expire(sessionKey(sessionId), this.sessionTtl)
+      .expire(metaKey, this.sessionTtl)
+      .exec();
+    return true;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const results = await this.redis.multi()
+      .del(sessionKey(sessionId), sessionMetaKey(sessionId))
+      .zrem(SESSION_INDEX_KEY, sessionId)
+      .exec();
+
+    const [, deleted] = results?.[0] ?? [null, 0];
+    return (deleted as number) > 0;
+  }
+
+  async setMessageFeedback(sessionId: string, messageId: string, feedback: MessageFeedback): Promise<ChatMessage | null> {
+    const key = sessionKey(sessionId);
+
+    for (let attempt = 0; attempt < MAX_FEEDBACK_ATTEMPTS; attempt++) {
+      const entries = await this.redis.lrange(key, 0, -1);
+      const messages = readMessages(entries);
+      const index = messages.findIndex(message => message.id === messageId);
+      if (index === -1) return null;
+
+      const message = { ...messages[index], feedback };
+      const stored = await this.redis.eval(
+        SET_MESSAGE_IF_UNCHANGED,
+        2,
+        key,
+        sessionMetaKey(sessionId),
+        index,
+        entries[index],
+        JSON.stringify(message),
+        this.sessionTtl
+      );
+      if (stored === 1) return message;
+    }
+
+    throw new Error(`Session ${sessionId} kept changing while storing feedback`);
+  }
+
+  async deleteMessage(sessionId: string, messageId: string): Promise<ChatMessage | null> {
+    const tree = await this.getSessionTree(sessionId);
+    const removed = tree.messages.find(message => message.id === messageId);
+    if (!removed) return null;
+
+    await this.replaceTree(sessionId, removeMessages(tree, new Set([messageId])));
+    return removed;
+  }
+
+  async truncateSessionHistory(sessionId: string, messageId: string): Promise<ChatMessage[] | null> {
+    const tree = await this.getSessionTree(sessionId);
+    if (!tree.messages.some(message => message.id === messageId)) return null;
+
+    const removedIds = descendantIds(tree.messages, messageId);
+    await this.replaceTree(sessionId, removeMessages(tree, removedIds));
+    return tree.messages.filter(message => removedIds.has(message.id));
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.redis.get(key);
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return keys.length > 0 ? this.redis.mget(keys) : [];
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    if (ttlSeconds) {
+      await this.redis.set(key, value, 'EX', ttlSeconds);
+    } else {
+      await this.redis.set(key, value);
+    }
+  }
+
+  async incr(key: string): Promise<number> {
+    return this.redis.incr(key);
+  }
+
+  async ping(): Promise<void> {
+    await this.redis.ping();
+  }
+
+  async close(): Promise<void> {
+    await this.redis.quit();
+  }
+
+  /**
+   * Rewrites the whole history after messages were removed, and marks the
+   * session as updated. A session belongs to one user, so concurrent edits
+   * of the same history are not guarded against.
+   */
+  private async replaceTree(sessionId: string, tree: SessionTree): Promise<void> {
+    const key = sessionKey(sessionId);
+    const metaKey = sessionMetaKey(sessionId);
+    const now = Date.now();
+
+    const transaction = this.redis.multi().del(key);
+    if (tree.messages.length > 0) {
+      transaction
+        .rpush(key, ...tree.messages.map(message => JSON.stringify(message)))
+        .expire(key, this.sessionTtl);
+    }
+
+    if (tree.activeLeafId) {
+      transaction.hset(metaKey, 'activeLeafId', tree.activeLeafId);
+    } else {
+      transaction.hdel(metaKey, 'activeLeafId');
+    }
+
+    await transaction
+      .hset(metaKey, 'updatedAt', String(now))
+      .zadd(SESSION_INDEX_KEY, now, sessionId)
+      .exec();
+  }
+}
+
+interface MemoryEntry<T> {
+  value: T;
+  expiresAt?: number;
+}
+
+// How often expired entries are swept, in ms; reads also skip them in between
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Cache entries kept at most; embeddings alone can take tens of kB each
+const MAX_CACHED_VALUES = 5000;
+
+interface MemorySession extends Omit<SessionInfo, 'id' | 'messageCount'>, SessionTree {}
+
+/**
+ * Process-local stand-in for Redis, for tests and for running without a
+ * Redis server. Nothing survives a restart and nothing is shared between
+ * processes. Values with an expiry are caches, so beyond `maxCachedValues`
+ * the least recently used are evicted; values without one, such as the
+ * query cache version, are always kept.
+ */
+export class MemorySessionStore implements StoreBackend {
+  readonly name = 'memory';
+  private sessions = new Map<string, MemoryEntry<MemorySession>>();
+  private values = new Map<string, MemoryEntry<string>>(); // in order of last use
+  private lastSweep = Date.now();
+
+  constructor(private sessionTtl: number, private maxCachedValues = MAX_CACHED_VALUES) {}
+
+  async getSessionHistory(sessionId: string): Promise<ChatMessage[]> {
+    const { messages, activeLeafId } = await this.getSessionTree(sessionId);
+    return pathTo(messages, activeLeafId);
+  }
+
+  async getSessionTree(sessionId: string): Promise<SessionTree> {
+    const session = this.touchSession(sessionId);
+    if (!session) return { messages: [], activeLeafId: null };
+
+    return { messages: [...session.messages], activeLeafId: session.activeLeafId };
+  }
+
+  async addToSessionHistory(sessionId: string, message: ChatMessage): Promise<void> {
+    const now = new Date();
+    const session = this.live(this.sessions, sessionId)?.value ?? {
+      title: 'New chat',
+      titleSource: 'message' as TitleSource,
+      createdAt: now,
+      updatedAt: now,
+      messages: [],
+      activeLeafId: null,
+    };
+
+    if (message.role === 'user' && session.messages.every(existing => existing.role !== 'user')) {
+      session.title = session.titleSource === 'message' ? titleFromMessage(message.content) : session.title;
+    }
+    session.messages.push(message);
+    session.activeLeafId = message.id;
+    session.updatedAt = now;
+
+    this.sessions.set(sessionId, { value: session, expiresAt: this.sessionExpiry() });
+    this.sweep();
+  }
+
+  async setActiveBranch(sessionId: string, messageId: string): Promise<ChatMessage[] | null> {
+    const session = this.touchSession(sessionId);
+    if (!session?.messages.some(message => message.id === messageId)) return null;
+
+    session.activeLeafId = latestLeaf(session.messages, messageId);
+    return pathTo(session.messages, session.activeLeafId);
+  }
+
+  async listSessions(limit: number): Promise<SessionInfo[]> {
+    const sessions: SessionInfo[] = [];
+    for (const id of Array.from(this.sessions.keys())) {
+      const session = await this.getSession(id);
+      if (session) sessions.push(session);
+    }
+
+    return sessions
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getSession(sessionId: string): Promise<SessionInfo | null> {
+    const entry = this.live(this.sessions, sessionId);
+    if (!entry) return null;
+
+    const { title, titleSource, createdAt, updatedAt, messages } = entry.value;
+    return { id: sessionId, title, titleSource, createdAt, updatedAt, messageCount: messages.length };
+  }
+
+  async setSessionTitle(sessionId: string, title: string, source: TitleSource): Promise<boolean> {
+    const session = this.live(this.sessions, sessionId)?.value;
+    if (!session) return false;
+
+    if (source === 'user' || session.titleSource !== 'user') {
+      session.title = title;
+      session.titleSource = source;
+      this.touchSession(sessionId);
+    }
+    return true;
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return this.live(this.sessions, sessionId) !== undefined && this.sessions.delete(sessionId);
+  }
+
+  async setMessageFeedback(sessionId: string, messageId: string, feedback: MessageFeedback): Promise<ChatMessage | null> {
+    const messages = this.touchSession(sessionId)?.messages ?? [];
+    const index = messages.findIndex(message => message.id === messageId);
+    if (index === -1) return null;
+
+    messages[index] = { ...messages[index], feedback };
+    return messages[index];
+  }
+
+  async deleteMessage(sessionId: string, messageId: string): Promise<ChatMessage | null> {
+    const session = this.touchSession(sessionId);
+    const removed = session?.messages.find(message => message.id === messageId);
+    if (!session || !removed) return null;
+
+    Object.assign(session, removeMessages(session, new Set([messageId])));
+    session.updatedAt = new Date();
+    return removed;
+  }
+
+  async truncateSessionHistory(sessionId: string, messageId: string): Promise<ChatMessage[] | null> {
+    const session = this.touchSession(sessionId);
+    if (!session?.messages.some(message => message.id === messageId)) return null;
+
+    const removedIds = descendantIds(session.messages, messageId);
+    const removed = session.messages.filter(message => removedIds.has(message.id));
+    Object.assign(session, removeMessages(session, removedIds));
+    session.updatedAt = new Date();
+    return removed;
+  }
+
+  async get(key: string): Promise<string | null> {
+    return this.useValue(key)?.value ?? null;
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return keys.map(key => this.useValue(key)?.value ?? null);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    this.storeValue(key, {
+      value,
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : undefined,
+    });
+    this.sweep();
+  }
+
+  async incr(key: string): Promise<number> {
+    const entry = this.live(this.values, key);
+    const next = parseInt(entry?.value ?? '0') + 1;
+    this.storeValue(key, { value: String(next), expiresAt: entry?.expiresAt });
+    return next;
+  }
+
+  async ping(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.sessions.clear();
+    this.values.clear();
+  }
+
+  private sessionExpiry(): number {
+    return Date.now() + this.sessionTtl * 1000;
+  }
+
+  // Reading or changing a session pushes its expiry back, as in the Redis store
+  private touchSession(sessionId: string): MemorySession | undefined {
+    const entry = this.live(this.sessions, sessionId);
+    if (entry) entry.expiresAt = this.sessionExpiry();
+    return entry?.value;
+  }
+
+  // Moves a value to the most recently used end of the map
+  private useValue(key: string): MemoryEntry<string> | undefined {
+    const entry = this.live(this.values, key);
+    if (entry) {
+      this.values.delete(key);
+      this.values.set(key, entry);
+    }
+    return entry;
+  }
+
+  private storeValue(key: string, entry: MemoryEntry<string>): void {
+    this.values.delete(key);
+    this.values.set(key, entry);
+
+    let excess = this.values.size - this.maxCachedValues;
+    if (excess <= 0) return;
+
+    for (const [candidate, { expiresAt }] of this.values) {
+      if (excess <= 0) break;
+      if (expiresAt === undefined) continue;
+      this.values.delete(candidate);
+      excess--;
+    }
+  }
+
+  private live<T>(map: Map<string, MemoryEntry<T>>, key: string): MemoryEntry<T> | undefined {
+    const entry = map.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      map.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+
+    for (const map of [this.sessions, this.values] as Array<Map<string, MemoryEntry<unknown>>>) {
+      for (const [key, entry] of map) {
+        if (entry.expiresAt !== undefined && entry.expiresAt <= now) map.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Sessions and caches for the whole backend. The backend is chosen on first
+ * use by `config.redis.store`: 'redis' requires Redis, 'memory' never
+ * connects, and 'auto' uses Redis but falls back to memory when it is
+ * unreachable, so the server can boot without it.
+ */
+class RedisClientClass implements SessionStore, KeyValueStore {
+  private backend?: Promise<StoreBackend>;
+  private active?: StoreBackend;
+
+  /** 'redis' or 'memory' once connected. */
+  get storeName(): StoreBackend['name'] | null {
+    return this.active?.name ?? null;
+  }
+
+  async connect(): Promise<void> {
+    await this.getBackend();
+  }
+
+  async disconnect(): Promise<void> {
+    if (!this.backend) return;
+
+    const backend = await this.backend;
+    this.backend = undefined;
+    this.active = undefined;
+    await backend.close();
+  }
+
+  async ping(): Promise<void> {
+    await (await this.getBackend()).ping();
+  }
+
+  async getSessionHistory(sessionId: string): Promise<ChatMessage[]> {
+    return (await this.getBackend()).getSessionHistory(sessionId);
+  }
+
+  async getSessionTree(sessionId: string): Promise<SessionTree> {
+    return (await this.getBackend()).getSessionTree(sessionId);
+  }
+
+  async addToSessionHistory(sessionId: string, message: ChatMessage): Promise<void> {
+    await (await this.getBackend()).addToSessionHistory(sessionId, message);
+  }
+
+  async setActiveBranch(sessionId: string, messageId: string): Promise<ChatMessage[] | null> {
+    return (await this.getBackend()).setActiveBranch(sessionId, messageId);
+  }
+
+  async listSessions(limit: number): Promise<SessionInfo[]> {
+    return (await this.getBackend()).listSessions(limit);
+  }
+
+  async getSession(sessionId: string): Promise<SessionInfo | null> {
+    return (await this.getBackend()).getSession(sessionId);
+  }
+
+  async setSessionTitle(sessionId: string, title: string, source: TitleSource): Promise<boolean> {
+    return (await this.getBackend()).setSessionTitle(sessionId, title, source);
+  }
+
+  async deleteSession(sessionId: string): Promise<boolean> {
+    return (await this.getBackend()).deleteSession(sessionId);
+  }
+
+  async setMessageFeedback(sessionId: string, messageId: string, feedback: MessageFeedback): Promise<ChatMessage | null> {
+    return (await this.getBackend()).setMessageFeedback(sessionId, messageId, feedback);
+  }
+
+  async deleteMessage(sessionId: string, messageId: string): Promise<ChatMessage | null> {
+    return (await this.getBackend()).deleteMessage(sessionId, messageId);
+  }
+
+  async truncateSessionHistory(sessionId: string, messageId: string): Promise<ChatMessage[] | null> {
+    return (await this.getBackend()).truncateSessionHistory(sessionId, messageId);
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.getBackend()).get(key);
+  }
+
+  async mget(keys: string[]): Promise<Array<string | null>> {
+    return (await this.getBackend()).mget(keys);
+  }
+
+  async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+    await (await this.getBackend()).set(key, value, ttlSeconds);
+  }
+
+  async incr(key: string): Promise<number> {
+    return (await this.getBackend()).incr(key);
+  }
+
+  // Connects lazily, so scripts that never call connect() still work
+  private getBackend(): Promise<StoreBackend> {
+    if (!this.backend) {
+      this.backend = this.createBackend()
+        .then(backend => {
+          this.active = backend;
+          return backend;
+        })
+        .catch(error => {
+          this.backend = undefined;
+          throw error;
+        });
+    }
+    return this.backend;
+  }
+
+  private async createBackend(): Promise<StoreBackend> {
+    const { store, url, sessionTtl } = config.redis;
+
+    if (store === 'memory') {
+      logger.info('Using in-memory session store');
+      return new MemorySessionStore(sessionTtl);
+    }
+
+    try {
+      const backend = await RedisSessionStore.connect(url, sessionTtl);
+      logger.info('Redis connected successfully');
+      return backend;
+    } catch (error) {
+      if (store === 'redis') throw error;
+
+      logger.warn('Redis unavailable, using in-memory session store; sessions and caches will not survive a restart', {
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return new MemorySessionStore(sessionTtl);
+    }
+  }
+}
+
+export const RedisClient = new RedisClientClass();
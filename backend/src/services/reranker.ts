@@ -0,0 +1,174 @@
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { tokenize } from './keywordIndex';
+import { LLMService } from './llm';
+import { maximalMarginalRelevance } from './mmr';
+import type { SearchResult } from './vectorStore';
+
+interface RerankApiResponse {
+  results: Array<{
+    index: number;
+    relevance_score: number;
+  }>;
+}
+
+const JINA_RERANK_URL = 'https://api.jina.ai/v1/rerank';
+const COHERE_RERANK_URL = 'https://api.cohere.ai/v1/rerank';
+
+// Passages are cut to this length in the LLM judge prompt to bound its size
+const LLM_PASSAGE_CHARS = 600;
+
+class RerankerServiceClass {
+  get enabled(): boolean {
+    return config.reranker.provider !== 'none';
+  }
+
+  /**
+   * How many documents to fetch from the vector store so the reranker, or
+   * MMR, has something to choose from.
+   */
+  get candidateCount(): number {
+    return this.enabled || config.retrieval.mmr
+      ? Math.max(config.reranker.candidates, config.reranker.topN)
+      : config.reranker.topN;
+  }
+
+  /**
+   * Rescores the candidates and returns the best `topN`, with `score` replaced
+   * by the reranker's relevance (0-1). On failure the retrieval order is kept.
+   * With `RETRIEVAL_MMR` the `topN` are then picked by Maximal Marginal
+   * Relevance over those scores, so near-duplicate chunks that both score
+   * high don't fill the context together.
+   */
+  async rerank(query: string, candidates: SearchResult[], topN: number = config.reranker.topN): Promise<SearchResult[]> {
+    if (!this.enabled || candidates.length === 0) {
+      return this.select(candidates, topN);
+    }
+
+    try {
+      let scores: number[];
+
+      switch (config.reranker.provider) {
+        case 'jina':
+          scores = await this.rerankWithApi(JINA_RERANK_URL, config.reranker.jina, query, candidates);
+          break;
+        case 'cohere':
+          scores = await this.rerankWithApi(COHERE_RERANK_URL, config.reranker.cohere, query, candidates);
+          break;
+        case 'llm':
+          scores = await this.rerankWithLLM(query, candidates);
+          break;
+        case 'heuristic':
+          scores = this.rerankWithHeuristic(query, candidates);
+          break;
+        default:
+          throw new Error(`Unsupported reranker provider: ${config.reranker.provider}`);
+      }
+
+      const reranked = this.select(
+        candidates
+          .map((doc, index) => ({ ...doc, score: scores[index] }))
+          .sort((a, b) => b.score - a.score),
+        topN
+      );
+
+      logger.info('Documents reranked', {
+        provider: config.reranker.provider,
+        candidates: candidates.length,
+        kept: reranked.length,
+      });
+
+      return reranked;
+
+    } catch (error) {
+      logger.error('Reranking failed, keeping retrieval order:', error);
+      return this.select(candidates, topN);
+    }
+  }
+
+  // Candidates come best first; vectors are only kept for MMR and dropped here
+  private select(ranked: SearchResult[], topN: number): SearchResult[] {
+    const selected = config.retrieval.mmr
+      ? maximalMarginalRelevance(ranked, topN, config.retrieval.mmrLambda)
+      : ranked.slice(0, topN);
+    return selected.map(({ vector, ...result }) => result);
+  }
+
+  // Jina and Cohere share the same request and response shape
+  private async rerankWithApi(
+    url: string,
+    provider: { apiKey: string; model: string },
+    query: string,
+    candidates: SearchResult[]
+  ): Promise<number[]> {
+    if (!provider.apiKey) {
+      throw new Error(`No API key configured for ${config.reranker.provider} reranker`);
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${provider.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: provider.model,
+        query,
+        documents: candidates.map(doc => doc.content),
+        top_n: candidates.length,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rerank API error: HTTP ${response.status}`);
+    }
+
+    const data = (await response.json()) as RerankApiResponse;
+    const scores = new Array<number>(candidates.length).fill(0);
+    for (const result of data.results) {
+      scores[result.index] = result.relevance_score;
+    }
+    return scores;
+  }
+
+  private async rerankWithLLM(query: string, candidates: SearchResult[]): Promise<number[]> {
+    const instructions = `You are a search relevance judge. Rate how well each numbered passage answers the question on a scale from 0 (irrelevant) to 10 (directly answers it).
+Reply with only a JSON array of ${candidates.length} numbers, one per passage, in order.`;
+
+    const passages = candidates
+      .map((doc, index) => `[${index + 1}] ${doc.metadata.title}\n${doc.content.slice(0, LLM_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    const reply = await LLMService.complete(instructions, `Question: ${query}\n\nPassages:\n${passages}`);
+
+    const match = reply.match(/\[[\s\S]*?\]/);
+    const ratings = match ? (JSON.parse(match[0]) as unknown[]) : [];
+    if (ratings.length !== candidates.length || !ratings.every(rating => typeof rating === 'number')) {
+      throw new Error('LLM reranker returned an unexpected reply');
+    }
+
+    return (ratings as number[]).map(rating => Math.min(Math.max(rating / 10, 0), 1));
+  }
+
+  /**
+   * Local fallback with no network calls: blends the retrieval score with the
+   * share of query terms that appear in the passage.
+   */
+  private rerankWithHeuristic(query: string, candidates: SearchResult[]): number[] {
+    const queryTerms = new Set(tokenize(query));
+
+    return candidates.map(doc => {
+      if (queryTerms.size === 0) return doc.score;
+
+      const docTerms = new Set(tokenize(`${doc.metadata.title} ${doc.content}`));
+      let matched = 0;
+      queryTerms.forEach(term => {
+        if (docTerms.has(term)) matched++;
+      });
+
+      return 0.5 * doc.score + 0.5 * (matched / queryTerms.size);
+    });
+  }
+}
+
+export const RerankerService = new RerankerServiceClass();
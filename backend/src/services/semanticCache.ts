@@ -0,0 +1,172 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config/config';
+import { logger } from '../utils/logger';
+import { EmbeddingService } from './embeddings';
+import { CachedAnswer, canonicalJson, QueryCache } from './queryCache';
+import { createVectorStoreAdapter, Document, VectorStoreAdapter } from './vectorStores';
+
+export interface SemanticCacheStats {
+  enabled: boolean;
+  entries: number; // counted at the last prune, plus entries stored since
+  hits: number;
+  misses: number;
+  hitRate: number | null; // null until the first lookup
+}
+
+// Stale entries are only hidden by lookups; they are deleted every this many stores
+const PRUNE_INTERVAL = 50;
+
+/**
+ * Reuses answers to earlier first messages that mean the same thing, e.g.
+ * "latest AI news" and "what's new in AI". Prior questions are kept with
+ * their embeddings in a small collection of the configured vector store,
+ * so the cache survives restarts and is shared between instances, and are
+ * matched by cosine similarity above `config.semanticCache.threshold`.
+ *
+ * Entries are stored as documents: the answer is the content, the question
+ * the title, and `source` holds the collection version and a hash of the
+ * parameters, so a lookup only matches entries that are still valid for
+ * the same retrieval and LLM settings. `publishedAt` is the time the entry
+ * was stored, which the date filter uses to skip expired entries.
+ */
+class SemanticCacheClass {
+  private adapter?: Promise<VectorStoreAdapter>;
+  private entries = 0;
+  private storesSincePrune = 0;
+  private hits = 0;
+  private misses = 0;
+
+  async lookup(question: string, params: object): Promise<CachedAnswer | null> {
+    if (!config.semanticCache.enabled) return null;
+
+    try {
+      const [embedding, key, adapter] = await Promise.all([
+        EmbeddingService.generateEmbedding(question),
+        this.entryKey(params),
+        this.getAdapter(),
+      ]);
+
+      const [best] = await adapter.search(embedding, 1, {
+        sources: [key],
+        from: new Date(Date.now() - config.redis.queryTtl * 1000).toISOString(),
+      });
+
+      if (!best || best.score < config.semanticCache.threshold) {
+        this.misses++;
+        return null;
+      }
+
+      this.hits++;
+      logger.info('Semantic cache hit', {
+        similarity: Number(best.score.toFixed(3)),
+        cachedQuestion: best.metadata.title,
+      });
+      return JSON.parse(best.content) as CachedAnswer;
+    } catch (error) {
+      logger.warn('Semantic cache lookup failed:', error);
+      this.misses++;
+      return null;
+    }
+  }
+
+  async store(question: string, params: object, answer: CachedAnswer): Promise<void> {
+    if (!config.semanticCache.enabled) return;
+
+    try {
+      const [embedding, key, adapter] = await Promise.all([
+        EmbeddingService.generateEmbedding(question),
+        this.entryKey(params),
+        this.getAdapter(),
+      ]);
+
+      const now = new Date();
+      const entry: Document = {
+        id: uuidv4(),
+        content: JSON.stringify(answer),
+        metadata: {
+          title: question,
+          url: '',
+          timestamp: now.toISOString(),
+          source: key,
+          publishedAt: now.getTime(),
+        },
+      };
+      await adapter.upsert([entry], [embedding]);
+      this.entries++;
+
+      if (++this.storesSincePrune >= PRUNE_INTERVAL) {
+        await this.prune(adapter);
+      }
+    } catch (error) {
+      logger.warn('Semantic cache store failed:', error);
+    }
+  }
+
+  getStats(): SemanticCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: config.semanticCache.enabled,
+      entries: this.entries,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Number((this.hits / lookups).toFixed(3)) : null,
+    };
+  }
+
+  // Entries only match while the collection version and every parameter are unchanged
+  private async entryKey(params: object): Promise<string> {
+    const version = await QueryCache.getVersion();
+    const paramsHash = createHash('sha256').update(canonicalJson(params)).digest('hex').slice(0, 32);
+    return `${version}:${paramsHash}`;
+  }
+
+  // Created on first use; a failed initialization is retried on the next call
+  private getAdapter(): Promise<VectorStoreAdapter> {
+    if (!this.adapter) {
+      this.adapter = (async () => {
+        const adapter = createVectorStoreAdapter(config.vectorStore.type, config.semanticCache.collectionName);
+        await adapter.initialize({
+          model: EmbeddingService.model,
+          dimensions: await EmbeddingService.getDimensions(),
+        });
+        await this.prune(adapter);
+        return adapter;
+      })().catch(error => {
+        this.adapter = undefined;
+        throw error;
+      });
+    }
+    return this.adapter;
+  }
+
+  // Deletes expired entries and those from older collection versions, then the oldest beyond maxEntries
+  private async prune(adapter: VectorStoreAdapter): Promise<void> {
+    this.storesSincePrune = 0;
+
+    const version = await QueryCache.getVersion();
+    const expiredBefore = Date.now() - config.redis.queryTtl * 1000;
+    const stale: string[] = [];
+    const live: Document[] = [];
+
+    for await (const batch of adapter.scroll(500)) {
+      for (const entry of batch) {
+        const current = entry.metadata.source.startsWith(`${version}:`)
+          && (entry.metadata.publishedAt ?? 0) >= expiredBefore;
+        if (current) live.push(entry);
+        else stale.push(entry.id);
+      }
+    }
+
+    live.sort((a, b) => (a.metadata.publishedAt ?? 0) - (b.metadata.publishedAt ?? 0));
+    const overflow = Math.max(0, live.length - config.semanticCache.maxEntries);
+    stale.push(...live.slice(0, overflow).map(entry => entry.id));
+
+    if (stale.length > 0) {
+      await adapter.delete(stale);
+    }
+    this.entries = live.length - overflow;
+  }
+}
+
+export const SemanticCache = new SemanticCacheClass();
@@ -1,274 +1,182 @@
-import { QdrantClient } from '@qdrant/js-client-rest';
-import { ChromaApi, OpenAIApi, Configuration } from 'chromadb';
 import { config } from '../config/config';
 import { logger } from '../utils/logger';
 import { EmbeddingService } from './embeddings';
-
-export interface Document {
-  id: string;
-  content: string;
-  metadata: {
-    title: string;
-    url: string;
-    timestamp: string;
-    source: string;
-  };
+import { KeywordIndex, reciprocalRankFusion } from './keywordIndex';
+import { maximalMarginalRelevance } from './mmr';
+import { QueryCache } from './queryCache';
+import {
+  createVectorStoreAdapter,
+  Document,
+  SearchFilter,
+  SearchResult,
+  VectorStoreAdapter,
+} from './vectorStores';
+
+export type { Document, SearchFilter, SearchResult, VectorStoreAdapter } from './vectorStores';
+
+export interface SearchOptions {
+  filter?: SearchFilter;
+  mode?: 'vector' | 'hybrid';
+  hybridWeight?: number; // share of the vector ranking, 0 = keyword only, 1 = vector only
+  mmr?: boolean; // diversify results with Maximal Marginal Relevance
+  mmrLambda?: number; // 1 = relevance only, 0 = diversity only
+  withVectors?: boolean; // keep each result's embedding, e.g. for MMR after reranking
 }
 
-export interface SearchResult {
-  id: string;
-  content: string;
-  metadata: {
-    title: string;
-    url: string;
-    timestamp: string;
-  };
-  score: number;
+// Date filters compare epoch ms, while feeds give timestamps in assorted string formats
+function withPublishedAt(doc: Document): Document {
+  if (doc.metadata.publishedAt !== undefined) return doc;
+
+  const publishedAt = Date.parse(doc.metadata.timestamp);
+  return Number.isNaN(publishedAt)
+    ? doc
+    : { ...doc, metadata: { ...doc.metadata, publishedAt } };
 }
 
 class VectorStoreService {
-  private qdrant?: QdrantClient;
-  private chroma?: ChromaApi;
-  private initialized = false;
-
-  async initialize(): Promise<void> {
+  private adapter?: VectorStoreAdapter;
+  private keywordIndex?: KeywordIndex;
+
+  /**
+   * Initializes the given adapter, or the one registered for
+   * `config.vectorStore.type` when none is passed. Fails with
+   * EmbeddingMismatchError if the collection was built with a different
+   * embedding model than the one configured.
+   */
+  async initialize(adapter?: VectorStoreAdapter): Promise<void> {
     try {
-      if (config.vectorStore.type === 'qdrant') {
-        await this.initializeQdrant();
-      } else {
-        await this.initializeChroma();
+      const selected = adapter ?? createVectorStoreAdapter(config.vectorStore.type);
+      await selected.initialize({
+        model: EmbeddingService.model,
+        dimensions: await EmbeddingService.getDimensions(),
+      });
+      this.adapter = selected;
+      logger.info(`Vector store initialized: ${selected.name}`);
+
+      if (config.retrieval.mode === 'hybrid') {
+        await this.buildKeywordIndex();
       }
-      this.initialized = true;
-      logger.info(`Vector store initialized: ${config.vectorStore.type}`);
     } catch (error) {
       logger.error('Failed to initialize vector store:', error);
       throw error;
     }
   }
 
-  private async initializeQdrant(): Promise<void> {
-    this.qdrant = new QdrantClient({
-      url: config.vectorStore.qdrant.url,
-      apiKey: config.vectorStore.qdrant.apiKey,
-    });
-
-    // Test connection
-    await this.qdrant.getCollections();
-
-    // Create collection if it doesn't exist
-    try {
-      await this.qdrant.getCollection(config.vectorStore.qdrant.collectionName);
-    } catch (error) {
-      logger.info('Creating Qdrant collection...');
-      await this.qdrant.createCollection(config.vectorStore.qdrant.collectionName, {
-        vectors: {
-          size: 768, // Default embedding size for most models
-          distance: 'Cosine',
-        },
-      });
+  /**
+   * The active backend, for callers that need adapter-specific features
+   * such as memory snapshots.
+   */
+  getAdapter(): VectorStoreAdapter {
+    if (!this.adapter) {
+      throw new Error('Vector store not initialized');
     }
+    return this.adapter;
   }
 
-  private async initializeChroma(): Promise<void> {
-    const configuration = new Configuration({
-      basePath: config.vectorStore.chroma.url,
-    });
-    this.chroma = new ChromaApi(configuration);
+  // Documents may have been ingested by another process, so load them all from the backend
+  private async buildKeywordIndex(): Promise<void> {
+    const keywordIndex = new KeywordIndex();
 
-    // Test connection and create collection if needed
-    try {
-      await this.chroma.getCollection(config.vectorStore.chroma.collectionName);
-    } catch (error) {
-      logger.info('Creating Chroma collection...');
-      await this.chroma.createCollection({
-        name: config.vectorStore.chroma.collectionName,
-        metadata: { description: 'RAG documents collection' },
-      });
+    for await (const batch of this.getAdapter().scroll(500)) {
+      keywordIndex.add(batch);
     }
+
+    this.keywordIndex = keywordIndex;
+    logger.info(`Keyword index built: ${keywordIndex.size} documents`);
   }
 
   async addDocuments(documents: Document[]): Promise<void> {
-    if (!this.initialized) {
-      throw new Error('Vector store not initialized');
-    }
+    const adapter = this.getAdapter();
 
     logger.info(`Adding ${documents.length} documents to vector store`);
 
-    if (config.vectorStore.type === 'qdrant') {
-      await this.addDocumentsToQdrant(documents);
-    } else {
-      await this.addDocumentsToChroma(documents);
-    }
+    documents = documents.map(withPublishedAt);
+
+    // Generate embeddings for all documents
+    const embeddings = await EmbeddingService.generateEmbeddings(documents.map(doc => doc.content));
+
+    await adapter.upsert(documents, embeddings);
+    this.keywordIndex?.add(documents);
+    await QueryCache.invalidate();
 
     logger.info('Documents added successfully');
   }
 
-  private async addDocumentsToQdrant(documents: Document[]): Promise<void> {
-    if (!this.qdrant) throw new Error('Qdrant not initialized');
+  async search(query: string, topK: number = 5, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const mode = options.mode ?? config.retrieval.mode;
+    const mmr = options.mmr ?? config.retrieval.mmr;
 
-    // Generate embeddings for all documents
-    const embeddings = await Promise.all(
-      documents.map(doc => EmbeddingService.generateEmbedding(doc.content))
-    );
+    logger.info(`Searching for query: "${query}" (top ${topK}, ${mode}${mmr ? ', mmr' : ''})`);
 
-    // Prepare points for Qdrant
-    const points = documents.map((doc, index) => ({
-      id: doc.id,
-      vector: embeddings[index],
-      payload: {
-        content: doc.content,
-        metadata: doc.metadata,
-      },
-    }));
-
-    // Batch insert points
-    const batchSize = 100;
-    for (let i = 0; i < points.length; i += batchSize) {
-      const batch = points.slice(i, i + batchSize);
-      await this.qdrant.upsert(config.vectorStore.qdrant.collectionName, {
-        wait: true,
-        points: batch,
-      });
-    }
-  }
+    // Generate embedding for query
+    const queryEmbedding = await EmbeddingService.generateEmbedding(query);
 
-  private async addDocumentsToChroma(documents: Document[]): Promise<void> {
-    if (!this.chroma) throw new Error('Chroma not initialized');
+    if (!mmr) {
+      return this.retrieve(query, queryEmbedding, topK, mode, options, options.withVectors);
+    }
 
-    // Generate embeddings for all documents
-    const embeddings = await Promise.all(
-      documents.map(doc => EmbeddingService.generateEmbedding(doc.content))
+    // Overlapping chunks of one article crowd the top results, so pick a diverse subset of a larger pool
+    const candidates = await this.retrieve(query, queryEmbedding, topK * 4, mode, options, true);
+    const selected = maximalMarginalRelevance(
+      candidates,
+      topK,
+      options.mmrLambda ?? config.retrieval.mmrLambda
     );
 
-    // Prepare data for Chroma
-    const ids = documents.map(doc => doc.id);
-    const metadatas = documents.map(doc => ({
-      content: doc.content,
-      ...doc.metadata,
-    }));
-    const documents_content = documents.map(doc => doc.content);
-
-    // Add to Chroma
-    await this.chroma.add(config.vectorStore.chroma.collectionName, {
-      ids,
-      embeddings,
-      metadatas,
-      documents: documents_content,
-    });
+    return options.withVectors ? selected : selected.map(({ vector, ...result }) => result);
   }
 
-  async search(query: string, topK: number = 5): Promise<SearchResult[]> {
-    if (!this.initialized) {
-      throw new Error('Vector store not initialized');
+  private async retrieve(
+    query: string,
+    queryEmbedding: number[],
+    topK: number,
+    mode: 'vector' | 'hybrid',
+    options: SearchOptions,
+    withVectors = false
+  ): Promise<SearchResult[]> {
+    const adapter = this.getAdapter();
+
+    if (mode === 'vector') {
+      return adapter.search(queryEmbedding, topK, options.filter, withVectors);
     }
 
-    logger.info(`Searching for query: "${query}" (top ${topK})`);
-
-    if (config.vectorStore.type === 'qdrant') {
-      return this.searchQdrant(query, topK);
-    } else {
-      return this.searchChroma(query, topK);
+    if (!this.keywordIndex) {
+      logger.warn('Hybrid search requested but the keyword index is not built, using vector search');
+      return adapter.search(queryEmbedding, topK, options.filter, withVectors);
     }
-  }
-
-  private async searchQdrant(query: string, topK: number): Promise<SearchResult[]> {
-    if (!this.qdrant) throw new Error('Qdrant not initialized');
 
-    // Generate embedding for query
-    const queryEmbedding = await EmbeddingService.generateEmbedding(query);
-
-    // Search in Qdrant
-    const results = await this.qdrant.search(config.vectorStore.qdrant.collectionName, {
-      vector: queryEmbedding,
-      limit: topK,
-      with_payload: true,
-    });
-
-    return results.map(result => ({
-      id: result.id as string,
-      content: result.payload?.content as string,
-      metadata: result.payload?.metadata as any,
-      score: result.score,
-    }));
-  }
-
-  private async searchChroma(query: string, topK: number): Promise<SearchResult[]> {
-    if (!this.chroma) throw new Error('Chroma not initialized');
-
-    // Generate embedding for query
-    const queryEmbedding = await EmbeddingService.generateEmbedding(query);
-
-    // Search in Chroma
-    const results = await this.chroma.query(config.vectorStore.chroma.collectionName, {
-      query_embeddings: [queryEmbedding],
-      n_results: topK,
-      include: ['metadatas', 'documents', 'distances'],
-    });
-
-    return results.ids[0].map((id, index) => ({
-      id: id as string,
-      content: results.documents[0][index] as string,
-      metadata: results.metadatas[0][index] as any,
-      score: 1 - (results.distances?.[0]?.[index] || 0), // Convert distance to similarity
-    }));
+    // Over-fetch from both rankings so documents found by only one can still place
+    const candidates = topK * 4;
+    const vectorResults = await adapter.search(queryEmbedding, candidates, options.filter, withVectors);
+    const keywordResults = this.keywordIndex.search(query, candidates, options.filter);
+
+    return reciprocalRankFusion(
+      vectorResults,
+      keywordResults,
+      options.hybridWeight ?? config.retrieval.hybridWeight,
+      config.retrieval.rrfK
+    ).slice(0, topK);
   }
 
   async deleteDocument(id: string): Promise<void> {
-    if (!this.initialized) {
-      throw new Error('Vector store not initialized');
-    }
-
-    if (config.vectorStore.type === 'qdrant') {
-      await this.qdrant?.delete(config.vectorStore.qdrant.collectionName, {
-        wait: true,
-        points: [id],
-      });
-    } else {
-      await this.chroma?.delete(config.vectorStore.chroma.collectionName, {
-        ids: [id],
-      });
-    }
+    await this.getAdapter().delete([id]);
+    this.keywordIndex?.remove(id);
+    await QueryCache.invalidate();
 
     logger.info(`Document deleted: ${id}`);
   }
 
   async clearCollection(): Promise<void> {
-    if (!this.initialized) {
-      throw new Error('Vector store not initialized');
-    }
-
-    if (config.vectorStore.type === 'qdrant') {
-      await this.qdrant?.delete(config.vectorStore.qdrant.collectionName, {
-        wait: true,
-        filter: {}, // Delete all points
-      });
-    } else {
-      // For Chroma, we need to recreate the collection
-      try {
-        await this.chroma?.deleteCollection(config.vectorStore.chroma.collectionName);
-      } catch (error) {
-        // Collection might not exist
-      }
-      await this.chroma?.createCollection({
-        name: config.vectorStore.chroma.collectionName,
-        metadata: { description: 'RAG documents collection' },
-      });
-    }
+    await this.getAdapter().clear();
+    this.keywordIndex?.clear();
+    await QueryCache.invalidate();
 
     logger.info('Vector store collection cleared');
   }
 
-  async getCollectionInfo(): Promise<any> {
-    if (!this.initialized) {
-      throw new Error('Vector store not initialized');
-    }
-
-    if (config.vectorStore.type === 'qdrant') {
-      return await this.qdrant?.getCollection(config.vectorStore.qdrant.collectionName);
-    } else {
-      return await this.chroma?.getCollection(config.vectorStore.chroma.collectionName);
-    }
+  async getCollectionInfo(): Promise<unknown> {
+    return this.getAdapter().getCollectionInfo();
   }
 }
 
-export const VectorStore = new VectorStoreService();
\ No newline at end of file
+export const VectorStore = new VectorStoreService();
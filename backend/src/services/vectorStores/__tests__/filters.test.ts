@@ -0,0 +1,66 @@
+import { isEmptyFilter, matchesFilter, publishedRange } from '../filters';
+import type { Document } from '../types';
+
+const metadata: Document['metadata'] = {
+  title: 'Chip exports',
+  url: 'https://www.bbc.com/news/technology-1',
+  timestamp: '2024-03-10T12:00:00Z',
+  source: 'BBC',
+  publishedAt: Date.parse('2024-03-10T12:00:00Z'),
+};
+
+describe('isEmptyFilter', () => {
+  it('treats a missing filter and one without conditions as empty', () => {
+    expect(isEmptyFilter()).toBe(true);
+    expect(isEmptyFilter({})).toBe(true);
+    expect(isEmptyFilter({ sources: [] })).toBe(true);
+  });
+
+  it('treats any condition as non-empty', () => {
+    expect(isEmptyFilter({ sources: ['BBC'] })).toBe(false);
+    expect(isEmptyFilter({ from: '2024-01-01' })).toBe(false);
+    expect(isEmptyFilter({ to: '2024-01-01' })).toBe(false);
+    expect(isEmptyFilter({ urlPrefix: 'https://' })).toBe(false);
+  });
+});
+
+describe('publishedRange', () => {
+  it('converts the date bounds to epoch ms', () => {
+    expect(publishedRange({ from: '2024-01-01T00:00:00Z', to: '2024-02-01T00:00:00Z' })).toEqual({
+      gte: Date.parse('2024-01-01T00:00:00Z'),
+      lte: Date.parse('2024-02-01T00:00:00Z'),
+    });
+    expect(publishedRange({})).toEqual({ gte: undefined, lte: undefined });
+  });
+});
+
+describe('matchesFilter', () => {
+  it('matches everything without a filter', () => {
+    expect(matchesFilter(metadata)).toBe(true);
+    expect(matchesFilter(metadata, {})).toBe(true);
+  });
+
+  it('matches on source and URL prefix', () => {
+    expect(matchesFilter(metadata, { sources: ['Reuters', 'BBC'] })).toBe(true);
+    expect(matchesFilter(metadata, { sources: ['Reuters'] })).toBe(false);
+    expect(matchesFilter(metadata, { urlPrefix: 'https://www.bbc.com/news' })).toBe(true);
+    expect(matchesFilter(metadata, { urlPrefix: 'https://www.reuters.com' })).toBe(false);
+  });
+
+  it('includes both date bounds', () => {
+    expect(matchesFilter(metadata, { from: '2024-03-10T12:00:00Z', to: '2024-03-10T12:00:00Z' })).toBe(true);
+    expect(matchesFilter(metadata, { from: '2024-03-11' })).toBe(false);
+    expect(matchesFilter(metadata, { to: '2024-03-09' })).toBe(false);
+  });
+
+  it('never matches a date bound without publishedAt', () => {
+    const undated = { ...metadata, publishedAt: undefined };
+
+    expect(matchesFilter(undated, { from: '2000-01-01' })).toBe(false);
+    expect(matchesFilter(undated, { sources: ['BBC'] })).toBe(true);
+  });
+
+  it('requires every condition to hold', () => {
+    expect(matchesFilter(metadata, { sources: ['BBC'], to: '2024-01-01' })).toBe(false);
+  });
+});
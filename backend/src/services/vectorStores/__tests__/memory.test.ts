@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MemoryAdapter } from '../memory';
+import type { Document } from '../types';
+
+jest.mock('../../../utils/logger', () => ({
+  logger: { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+}));
+
+const embedding = { model: 'test/hashing', dimensions: 2 };
+
+function document(id: string): Document {
+  return {
+    id,
+    content: id,
+    metadata: { title: id, url: `https://example.com/${id}`, timestamp: '', source: 'test' },
+  };
+}
+
+describe('MemoryAdapter snapshots', () => {
+  let directory: string;
+  let persistPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'memory-adapter-'));
+    persistPath = path.join(directory, 'collection.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('saves concurrent writes one after another, ending with the latest state', async () => {
+    const adapter = new MemoryAdapter({ collectionName: 'test', persistPath });
+    await adapter.initialize(embedding);
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, index) => adapter.upsert([document(`doc-${index}`)], [[1, index]]))
+    );
+
+    const reloaded = new MemoryAdapter({ collectionName: 'test', persistPath });
+    await reloaded.initialize(embedding);
+    expect(await reloaded.getCollectionInfo()).toMatchObject({ points_count: 10 });
+    expect(await fs.readdir(directory)).toEqual(['collection.json']);
+  });
+
+  it('rejects a snapshot built with another embedding model', async () => {
+    const adapter = new MemoryAdapter({ collectionName: 'test', persistPath });
+    await adapter.initialize(embedding);
+    await adapter.upsert([document('doc')], [[1, 0]]);
+
+    const other = new MemoryAdapter({ collectionName: 'test', persistPath });
+    await expect(other.initialize({ model: 'test/other', dimensions: 2 })).rejects.toThrow();
+  });
+});
@@ -0,0 +1,166 @@
+import { ChromaApi, Configuration } from 'chromadb';
+import { logger } from '../../utils/logger';
+import { assertEmbeddingSpec } from './compatibility';
+import { matchesFilter, POST_FILTER_OVERFETCH, publishedRange } from './filters';
+import { Document, EmbeddingSpec, SearchFilter, SearchResult, VectorStoreAdapter } from './types';
+
+export interface ChromaAdapterOptions {
+  url: string;
+  collectionName: string;
+}
+
+export class ChromaAdapter implements VectorStoreAdapter {
+  readonly name = 'chroma';
+  private client?: ChromaApi;
+  private embedding?: EmbeddingSpec;
+
+  constructor(private options: ChromaAdapterOptions) {}
+
+  private get chroma(): ChromaApi {
+    if (!this.client) throw new Error('Chroma not initialized');
+    return this.client;
+  }
+
+  async initialize(embedding: EmbeddingSpec): Promise<void> {
+    const configuration = new Configuration({
+      basePath: this.options.url,
+    });
+    this.client = new ChromaApi(configuration);
+    this.embedding = embedding;
+
+    // Test connection and create collection if needed
+    let collection: { metadata?: Record<string, unknown> | null } | undefined;
+    try {
+      collection = await this.client.getCollection(this.options.collectionName);
+    } catch (error) {
+      logger.info('Creating Chroma collection...');
+      await this.createCollection();
+    }
+
+    if (collection) {
+      const { embeddingModel, dimensions } = collection.metadata ?? {};
+      assertEmbeddingSpec(this.options.collectionName, embedding, {
+        model: typeof embeddingModel === 'string' ? embeddingModel : undefined,
+        dimensions: typeof dimensions === 'number' ? dimensions : undefined,
+      });
+    }
+  }
+
+  // Chroma fixes the dimension on first insert; the model is recorded for the startup check
+  private async createCollection(): Promise<void> {
+    await this.chroma.createCollection({
+      name: this.options.collectionName,
+      metadata: {
+        description: 'RAG documents collection',
+        embeddingModel: this.embedding?.model,
+        dimensions: this.embedding?.dimensions,
+      },
+    });
+  }
+
+  async upsert(documents: Document[], embeddings: number[][]): Promise<void> {
+    // Prepare data for Chroma
+    const ids = documents.map(doc => doc.id);
+    const metadatas = documents.map(doc => ({
+      content: doc.content,
+      ...doc.metadata,
+    }));
+    const documents_content = documents.map(doc => doc.content);
+
+    // Add to Chroma
+    await this.chroma.add(this.options.collectionName, {
+      ids,
+      embeddings,
+      metadatas,
+      documents: documents_content,
+    });
+  }
+
+  async search(
+    embedding: number[],
+    topK: number,
+    filter?: SearchFilter,
+    withVectors = false
+  ): Promise<SearchResult[]> {
+    // Chroma has no prefix operator on metadata, so urlPrefix is applied after the query
+    const limit = filter?.urlPrefix ? topK * POST_FILTER_OVERFETCH : topK;
+
+    const results = await this.chroma.query(this.options.collectionName, {
+      query_embeddings: [embedding],
+      n_results: limit,
+      where: this.buildWhere(filter),
+      include: withVectors
+        ? ['metadatas', 'documents', 'distances', 'embeddings']
+        : ['metadatas', 'documents', 'distances'],
+    });
+
+    return results.ids[0]
+      .map((id, index) => ({
+        id: id as string,
+        content: results.documents[0][index] as string,
+        metadata: results.metadatas[0][index] as SearchResult['metadata'],
+        score: 1 - (results.distances?.[0]?.[index] || 0), // Convert distance to similarity
+        vector: withVectors ? (results.embeddings?.[0]?.[index] as number[]) : undefined,
+      }))
+      .filter(result => matchesFilter(result.metadata, filter))
+      .slice(0, topK);
+  }
+
+  private buildWhere(filter?: SearchFilter) {
+    if (!filter) return undefined;
+
+    const clauses: Array<Record<string, unknown>> = [];
+
+    if (filter.sources?.length) {
+      clauses.push({ source: { $in: filter.sources } });
+    }
+
+    const { gte, lte } = publishedRange(filter);
+    if (gte !== undefined) clauses.push({ publishedAt: { $gte: gte } });
+    if (lte !== undefined) clauses.push({ publishedAt: { $lte: lte } });
+
+    // Chroma wants a single clause at the top level and $and for several
+    return clauses.length > 1 ? { $and: clauses } : clauses[0];
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.chroma.delete(this.options.collectionName, { ids });
+  }
+
+  async *scroll(batchSize: number): AsyncGenerator<Document[]> {
+    for (let offset = 0; ; offset += batchSize) {
+      const page = await this.chroma.get(this.options.collectionName, {
+        limit: batchSize,
+        offset,
+        include: ['metadatas', 'documents'],
+      });
+
+      if (page.ids.length === 0) return;
+
+      yield page.ids.map((id, index) => {
+        const { title, url, timestamp, source, publishedAt } = page.metadatas[index] as Document['metadata'];
+        return {
+          id: id as string,
+          content: page.documents[index] as string,
+          metadata: { title, url, timestamp, source, publishedAt },
+        };
+      });
+
+      if (page.ids.length < batchSize) return;
+    }
+  }
+
+  async clear(): Promise<void> {
+    // For Chroma, we need to recreate the collection
+    try {
+      await this.chroma.deleteCollection(this.options.collectionName);
+    } catch (error) {
+      // Collection might not exist
+    }
+    await this.createCollection();
+  }
+
+  async getCollectionInfo(): Promise<unknown> {
+    return this.chroma.getCollection(this.options.collectionName);
+  }
+}
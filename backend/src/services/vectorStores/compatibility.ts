@@ -0,0 +1,35 @@
+import { EmbeddingSpec } from './types';
+
+export class EmbeddingMismatchError extends Error {
+  constructor(
+    public collection: string,
+    public expected: EmbeddingSpec,
+    public actual: Partial<EmbeddingSpec>
+  ) {
+    super(
+      `Collection "${collection}" holds ${actual.model ?? 'unknown model'} embeddings ` +
+      `(${actual.dimensions ?? '?'} dims), but the embeddings provider is configured for ` +
+      `${expected.model} (${expected.dimensions} dims). Run \`npm run reembed\` to migrate ` +
+      'it, or point the vector store at a new collection.'
+    );
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+/**
+ * Checks what a collection records about its embeddings against the
+ * configured model. Collections created before the model was recorded only
+ * have their dimension checked.
+ */
+export function assertEmbeddingSpec(
+  collection: string,
+  expected: EmbeddingSpec,
+  actual: Partial<EmbeddingSpec>
+): void {
+  const dimensionsDiffer = actual.dimensions !== undefined && actual.dimensions !== expected.dimensions;
+  const modelDiffers = actual.model !== undefined && actual.model !== expected.model;
+
+  if (dimensionsDiffer || modelDiffers) {
+    throw new EmbeddingMismatchError(collection, expected, actual);
+  }
+}
@@ -0,0 +1,52 @@
+import { Document, SearchFilter } from './types';
+
+export function isEmptyFilter(filter?: SearchFilter): boolean {
+  return !filter || (
+    !filter.sources?.length &&
+    !filter.from &&
+    !filter.to &&
+    !filter.urlPrefix
+  );
+}
+
+/**
+ * The filter's date bounds as epoch ms, for comparison with metadata.publishedAt.
+ */
+export function publishedRange(filter: SearchFilter): { gte?: number; lte?: number } {
+  return {
+    gte: filter.from ? Date.parse(filter.from) : undefined,
+    lte: filter.to ? Date.parse(filter.to) : undefined,
+  };
+}
+
+/**
+ * Evaluates the filter in process, for backends (and conditions) with no
+ * native equivalent. Documents without publishedAt never match a date bound.
+ */
+export function matchesFilter(metadata: Document['metadata'], filter?: SearchFilter): boolean {
+  if (!filter) return true;
+
+  if (filter.sources?.length && !filter.sources.includes(metadata.source)) {
+    return false;
+  }
+
+  if (filter.urlPrefix && !metadata.url?.startsWith(filter.urlPrefix)) {
+    return false;
+  }
+
+  const { gte, lte } = publishedRange(filter);
+  if (gte !== undefined || lte !== undefined) {
+    const publishedAt = metadata.publishedAt;
+    if (publishedAt === undefined) return false;
+    if (gte !== undefined && publishedAt < gte) return false;
+    if (lte !== undefined && publishedAt > lte) return false;
+  }
+
+  return true;
+}
+
+/**
+ * How many extra candidates to request from a backend that can't apply
+ * `urlPrefix` itself, so enough remain after filtering in process.
+ */
+export const POST_FILTER_OVERFETCH = 5;
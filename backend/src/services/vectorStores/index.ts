@@ -0,0 +1,56 @@
+import path from 'path';
+import { config } from '../../config/config';
+import { ChromaAdapter } from './chroma';
+import { MemoryAdapter } from './memory';
+import { PgVectorAdapter } from './pgvector';
+import { QdrantAdapter } from './qdrant';
+import { VectorStoreAdapter, VectorStoreAdapterFactory } from './types';
+
+export * from './types';
+export { assertEmbeddingSpec, EmbeddingMismatchError } from './compatibility';
+export { isEmptyFilter, matchesFilter, publishedRange } from './filters';
+export { ChromaAdapter } from './chroma';
+export { MemoryAdapter, cosineSimilarity } from './memory';
+export { PgVectorAdapter } from './pgvector';
+export { QdrantAdapter } from './qdrant';
+
+const adapterFactories = new Map<string, VectorStoreAdapterFactory>();
+
+/**
+ * Registers a backend under the name used by `VECTOR_STORE_TYPE`.
+ * Registering an existing name replaces it.
+ */
+export function registerVectorStoreAdapter(name: string, factory: VectorStoreAdapterFactory): void {
+  adapterFactories.set(name, factory);
+}
+
+export function createVectorStoreAdapter(name: string, collectionName?: string): VectorStoreAdapter {
+  const factory = adapterFactories.get(name);
+  if (!factory) {
+    throw new Error(
+      `Unsupported vector store type: ${name} (registered: ${Array.from(adapterFactories.keys()).join(', ')})`
+    );
+  }
+  return factory(collectionName);
+}
+
+registerVectorStoreAdapter('qdrant', (collectionName = config.vectorStore.qdrant.collectionName) =>
+  new QdrantAdapter({ ...config.vectorStore.qdrant, collectionName })
+);
+registerVectorStoreAdapter('chroma', (collectionName = config.vectorStore.chroma.collectionName) =>
+  new ChromaAdapter({ ...config.vectorStore.chroma, collectionName })
+);
+registerVectorStoreAdapter('memory', collectionName => {
+  const { persistPath } = config.vectorStore.memory;
+  // Other collections get their own snapshot next to the main one
+  return collectionName
+    ? new MemoryAdapter({
+      collectionName,
+      persistPath: persistPath && path.join(path.dirname(persistPath), `${collectionName}.json`),
+    })
+    : new MemoryAdapter(config.vectorStore.memory);
+});
+registerVectorStoreAdapter('pgvector', (tableName = config.vectorStore.pgvector.tableName) => new PgVectorAdapter({
+  ...config.vectorStore.pgvector,
+  tableName,
+}));
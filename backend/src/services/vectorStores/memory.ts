@@ -0,0 +1,194 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../../utils/logger';
+import { assertEmbeddingSpec } from './compatibility';
+import { matchesFilter } from './filters';
+import { Document, EmbeddingSpec, SearchFilter, SearchResult, VectorStoreAdapter } from './types';
+
+export interface MemoryAdapterOptions {
+  collectionName: string;
+  persistPath?: string; // JSON snapshot file, in-memory only when unset
+}
+
+interface MemoryRecord {
+  id: string;
+  content: string;
+  metadata: Document['metadata'];
+  vector: number[];
+}
+
+interface MemorySnapshot {
+  collectionName: string;
+  embedding?: EmbeddingSpec; // absent in snapshots written before it was recorded
+  records: MemoryRecord[];
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export class MemoryAdapter implements VectorStoreAdapter {
+  readonly name = 'memory';
+  private records = new Map<string, MemoryRecord>();
+  private embedding?: EmbeddingSpec;
+  private writes: Promise<void> = Promise.resolve(); // snapshot writes, one at a time
+
+  constructor(private options: MemoryAdapterOptions) {}
+
+  async initialize(embedding: EmbeddingSpec): Promise<void> {
+    this.records.clear();
+    this.embedding = embedding;
+
+    if (this.options.persistPath) {
+      await this.loadSnapshot(this.options.persistPath);
+    }
+  }
+
+  async upsert(documents: Document[], embeddings: number[][]): Promise<void> {
+    documents.forEach((doc, index) => {
+      this.records.set(doc.id, {
+        id: doc.id,
+        content: doc.content,
+        metadata: doc.metadata,
+        vector: embeddings[index],
+      });
+    });
+
+    await this.persist();
+  }
+
+  async search(
+    embedding: number[],
+    topK: number,
+    filter?: SearchFilter,
+    withVectors = false
+  ): Promise<SearchResult[]> {
+    // Brute-force scan; fine for the few thousand chunks a local run holds
+    return Array.from(this.records.values())
+      .filter(record => matchesFilter(record.metadata, filter))
+      .map(record => ({
+        id: record.id,
+        content: record.content,
+        metadata: record.metadata,
+        score: cosineSimilarity(embedding, record.vector),
+        vector: withVectors ? record.vector : undefined,
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    ids.forEach(id => this.records.delete(id));
+    await this.persist();
+  }
+
+  async *scroll(batchSize: number): AsyncGenerator<Document[]> {
+    const documents = Array.from(this.records.values()).map(({ id, content, metadata }) => ({
+      id,
+      content,
+      metadata,
+    }));
+
+    for (let i = 0; i < documents.length; i += batchSize) {
+      yield documents.slice(i, i + batchSize);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.records.clear();
+    await this.persist();
+  }
+
+  async getCollectionInfo(): Promise<unknown> {
+    return {
+      name: this.options.collectionName,
+      points_count: this.records.size,
+      persistPath: this.options.persistPath ?? null,
+    };
+  }
+
+  /**
+   * Writes the collection, embeddings included, to a JSON file. Writes are
+   * queued behind each other, and each one saves the collection as it is
+   * when its turn comes.
+   */
+  async saveSnapshot(filePath: string): Promise<void> {
+    const write = this.writes.then(() => this.writeSnapshot(filePath));
+    // A failed write is reported to its caller and doesn't hold up the next one
+    this.writes = write.catch(() => undefined);
+    await write;
+  }
+
+  /**
+   * Replaces the collection with a snapshot written by saveSnapshot.
+   * A missing file is treated as an empty collection. Once initialized, a
+   * snapshot built with another embedding model is rejected.
+   */
+  async loadSnapshot(filePath: string): Promise<void> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        logger.info(`No memory vector store snapshot at ${filePath}, starting empty`);
+        return;
+      }
+      throw error;
+    }
+
+    const snapshot = JSON.parse(raw) as MemorySnapshot;
+    if (this.embedding) {
+      assertEmbeddingSpec(snapshot.collectionName, this.embedding, {
+        model: snapshot.embedding?.model,
+        dimensions: snapshot.embedding?.dimensions ?? snapshot.records[0]?.vector.length,
+      });
+    }
+
+    this.records.clear();
+    for (const record of snapshot.records) {
+      this.records.set(record.id, record);
+    }
+
+    logger.info(`Memory vector store loaded: ${this.records.size} documents <- ${filePath}`);
+  }
+
+  private async writeSnapshot(filePath: string): Promise<void> {
+    const snapshot: MemorySnapshot = {
+      collectionName: this.options.collectionName,
+      embedding: this.embedding,
+      records: Array.from(this.records.values()),
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash mid-write never truncates the snapshot. The name
+    // is unique so another process saving the same collection can't rename it away.
+    const tempPath = `${filePath}.${uuidv4()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(snapshot));
+      await fs.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    logger.info(`Memory vector store saved: ${snapshot.records.length} documents -> ${filePath}`);
+  }
+
+  private async persist(): Promise<void> {
+    if (this.options.persistPath) {
+      await this.saveSnapshot(this.options.persistPath);
+    }
+  }
+}
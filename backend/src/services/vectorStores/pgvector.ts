@@ -0,0 +1,296 @@
+import { PrismaClient } from '@prisma/client';
+import { logger } from '../../utils/logger';
+import { Database } from '../database';
+import { assertEmbeddingSpec } from './compatibility';
+import { publishedRange } from './filters';
+import { Document, EmbeddingSpec, SearchFilter, SearchResult, VersionedVectorStoreAdapter } from './types';
+
+// Connects to DATABASE_URL through the client shared with the conversation archive
+export interface PgVectorAdapterOptions {
+  tableName: string;
+  indexType: 'hnsw' | 'ivfflat';
+}
+
+interface DocumentRow {
+  id: string;
+  content: string;
+  metadata: SearchResult['metadata'];
+  score: number;
+  vector?: string;
+}
+
+// Indexes are named after their table, so they are renamed along with it
+const INDEX_SUFFIXES = ['pkey', 'embedding_idx', 'source_idx', 'published_at_idx'];
+
+// pgvector's HNSW and IVFFlat indexes can't hold vectors with more dimensions
+const MAX_INDEXED_DIMENSIONS = 2000;
+
+const toVectorLiteral = (embedding: number[]): string => `[${embedding.join(',')}]`;
+
+export class PgVectorAdapter implements VersionedVectorStoreAdapter {
+  readonly name = 'pgvector';
+  private client?: PrismaClient;
+  private embedding?: EmbeddingSpec;
+
+  constructor(private options: PgVectorAdapterOptions) {
+    // The table name is interpolated into SQL, so only allow plain identifiers
+    if (!/^[a-zA-Z_][a-zA-Z0-9_]*$/.test(options.tableName)) {
+      throw new Error(`Invalid pgvector table name: ${options.tableName}`);
+    }
+  }
+
+  private get prisma(): PrismaClient {
+    if (!this.client) throw new Error('pgvector not initialized');
+    return this.client;
+  }
+
+  private get table(): string {
+    return `"${this.options.tableName}"`;
+  }
+
+  async connect(): Promise<void> {
+    await Database.connect();
+    this.client = Database.client;
+  }
+
+  async initialize(embedding: EmbeddingSpec): Promise<void> {
+    await this.connect();
+    this.embedding = embedding;
+
+    const { tableName } = this.options;
+    const { dimensions } = embedding;
+
+    await this.prisma.$executeRawUnsafe('CREATE EXTENSION IF NOT EXISTS vector');
+
+    const [existing] = await this.prisma.$queryRawUnsafe<Array<{ oid: string | null }>>(
+      'SELECT to_regclass($1)::text AS oid',
+      this.table
+    );
+
+    await this.prisma.$executeRawUnsafe(`
+      CREATE TABLE IF NOT EXISTS ${this.table} (
+        id TEXT PRIMARY KEY,
+        content TEXT NOT NULL,
+        metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+        embedding vector(${dimensions}) NOT NULL,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+
+    if (existing?.oid) {
+      await this.checkEmbeddingSpec(embedding);
+    } else {
+      // The model is kept as the table comment, the dimension is part of the column type
+      await this.prisma.$executeRawUnsafe(
+        `COMMENT ON TABLE ${this.table} IS '${embedding.model.replace(/'/g, "''")}'`
+      );
+    }
+
+    await this.createEmbeddingIndex(dimensions);
+    await this.prisma.$executeRawUnsafe(`
+      CREATE INDEX IF NOT EXISTS "${tableName}_source_idx"
+      ON ${this.table} ((metadata->>'source'))
+    `);
+    await this.prisma.$executeRawUnsafe(`
+      CREATE INDEX IF NOT EXISTS "${tableName}_published_at_idx"
+      ON ${this.table} (((metadata->>'publishedAt')::bigint))
+    `);
+
+    logger.info(`pgvector table ready: ${tableName} (${dimensions} dims)`);
+  }
+
+  /**
+   * HNSW can be built on an empty table. IVFFlat clusters the rows present
+   * when it is built, so it is skipped while the table is empty and must be
+   * rebuilt once the table has grown (restart after the first ingestion, or
+   * REINDEX later on).
+   */
+  private async createEmbeddingIndex(dimensions: number): Promise<void> {
+    const { tableName, indexType } = this.options;
+
+    if (dimensions > MAX_INDEXED_DIMENSIONS) {
+      logger.warn(
+        `pgvector can't index more than ${MAX_INDEXED_DIMENSIONS} dimensions, ` +
+        `so ${tableName} (${dimensions} dims) is searched without an index`
+      );
+      return;
+    }
+
+    let indexOptions = '';
+    if (indexType === 'ivfflat') {
+      const rows = await this.countRows();
+      if (rows === 0) {
+        logger.warn(`IVFFlat index on ${tableName} skipped while the table is empty; restart after ingestion to build it`);
+        return;
+      }
+
+      // pgvector's guidance: rows / 1000 lists up to a million rows, sqrt(rows) beyond
+      const lists = rows <= 1_000_000 ? Math.max(1, Math.round(rows / 1000)) : Math.round(Math.sqrt(rows));
+      indexOptions = `WITH (lists = ${lists})`;
+    }
+
+    await this.prisma.$executeRawUnsafe(`
+      CREATE INDEX IF NOT EXISTS "${tableName}_embedding_idx"
+      ON ${this.table} USING ${indexType} (embedding vector_cosine_ops) ${indexOptions}
+    `);
+  }
+
+  private async countRows(): Promise<number> {
+    const [{ count }] = await this.prisma.$queryRawUnsafe<Array<{ count: bigint }>>(
+      `SELECT count(*) AS count FROM ${this.table}`
+    );
+    return Number(count);
+  }
+
+  private async checkEmbeddingSpec(embedding: EmbeddingSpec): Promise<void> {
+    const [row] = await this.prisma.$queryRawUnsafe<Array<{ type: string; model: string | null }>>(
+      `SELECT format_type(a.atttypid, a.atttypmod) AS type,
+              obj_description(a.attrelid, 'pg_class') AS model
+       FROM pg_attribute a
+       WHERE a.attrelid = $1::regclass AND a.attname = 'embedding'`,
+      this.table
+    );
+
+    const dimensions = row?.type.match(/^vector\((\d+)\)$/)?.[1];
+    assertEmbeddingSpec(this.options.tableName, embedding, {
+      model: row?.model ?? undefined,
+      dimensions: dimensions ? parseInt(dimensions) : undefined,
+    });
+  }
+
+  async upsert(documents: Document[], embeddings: number[][]): Promise<void> {
+    const batchSize = 100;
+    for (let i = 0; i < documents.length; i += batchSize) {
+      const batch = documents.slice(i, i + batchSize);
+      const values: unknown[] = [];
+
+      const rows = batch.map((doc, index) => {
+        const offset = values.length;
+        values.push(doc.id, doc.content, JSON.stringify(doc.metadata), toVectorLiteral(embeddings[i + index]));
+        return `($${offset + 1}, $${offset + 2}, $${offset + 3}::jsonb, $${offset + 4}::vector)`;
+      });
+
+      await this.prisma.$executeRawUnsafe(
+        `INSERT INTO ${this.table} (id, content, metadata, embedding)
+         VALUES ${rows.join(', ')}
+         ON CONFLICT (id) DO UPDATE
+         SET content = EXCLUDED.content, metadata = EXCLUDED.metadata, embedding = EXCLUDED.embedding`,
+        ...values
+      );
+    }
+  }
+
+  async search(
+    embedding: number[],
+    topK: number,
+    filter?: SearchFilter,
+    withVectors = false
+  ): Promise<SearchResult[]> {
+    const values: unknown[] = [toVectorLiteral(embedding), topK];
+    const conditions: string[] = [];
+
+    if (filter?.sources?.length) {
+      values.push(filter.sources);
+      conditions.push(`metadata->>'source' = ANY($${values.length}::text[])`);
+    }
+
+    if (filter?.urlPrefix) {
+      // Escape LIKE wildcards so the prefix is matched literally
+      values.push(filter.urlPrefix.replace(/[\\%_]/g, '\\$&') + '%');
+      conditions.push(`metadata->>'url' LIKE $${values.length}`);
+    }
+
+    const { gte, lte } = filter ? publishedRange(filter) : {};
+    if (gte !== undefined) {
+      values.push(gte);
+      conditions.push(`(metadata->>'publishedAt')::bigint >= $${values.length}`);
+    }
+    if (lte !== undefined) {
+      values.push(lte);
+      conditions.push(`(metadata->>'publishedAt')::bigint <= $${values.length}`);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = await this.prisma.$queryRawUnsafe<DocumentRow[]>(
+      `SELECT id, content, metadata, 1 - (embedding <=> $1::vector) AS score
+              ${withVectors ? ', embedding::text AS vector' : ''}
+       FROM ${this.table}
+       ${where}
+       ORDER BY embedding <=> $1::vector
+       LIMIT $2`,
+      ...values
+    );
+
+    return rows.map(row => ({
+      id: row.id,
+      content: row.content,
+      metadata: row.metadata,
+      score: Number(row.score),
+      // pgvector's text form, '[0.1,0.2,...]', is valid JSON
+      vector: row.vector ? (JSON.parse(row.vector) as number[]) : undefined,
+    }));
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.prisma.$executeRawUnsafe(`DELETE FROM ${this.table} WHERE id = ANY($1::text[])`, ids);
+  }
+
+  async *scroll(batchSize: number, afterId?: string): AsyncGenerator<Document[]> {
+    let lastId = afterId ?? '';
+
+    while (true) {
+      // Keyset pagination on the primary key stays fast on large tables
+      const rows = await this.prisma.$queryRawUnsafe<Document[]>(
+        `SELECT id, content, metadata FROM ${this.table} WHERE id > $1 ORDER BY id LIMIT $2`,
+        lastId,
+        batchSize
+      );
+
+      if (rows.length === 0) return;
+      yield rows;
+      if (rows.length < batchSize) return;
+
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.prisma.$executeRawUnsafe(`TRUNCATE ${this.table}`);
+  }
+
+  async getCollectionInfo(): Promise<unknown> {
+    return {
+      name: this.options.tableName,
+      points_count: await this.countRows(),
+      embeddingModel: this.embedding?.model,
+      dimensions: this.embedding?.dimensions,
+      indexType: this.options.indexType,
+    };
+  }
+
+  // Tables are renamed rather than aliased, so the configured name is always the live table
+  async resolveCollection(): Promise<string> {
+    return this.options.tableName;
+  }
+
+  forCollection(name: string): PgVectorAdapter {
+    return new PgVectorAdapter({ ...this.options, tableName: name });
+  }
+
+  async promoteCollection(name: string): Promise<string> {
+    const current = this.options.tableName;
+    const retired = `${current}_retired_${Date.now()}`;
+
+    const renames = (from: string, to: string) => [
+      `ALTER TABLE "${from}" RENAME TO "${to}"`,
+      ...INDEX_SUFFIXES.map(suffix => `ALTER INDEX IF EXISTS "${from}_${suffix}" RENAME TO "${to}_${suffix}"`),
+    ];
+
+    // DDL is transactional in Postgres, so readers see either the old table or the new one
+    await this.prisma.$transaction(
+      [...renames(current, retired), ...renames(name, current)].map(sql => this.prisma.$executeRawUnsafe(sql))
+    );
+    return retired;
+  }
+}
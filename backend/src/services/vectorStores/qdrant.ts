@@ -0,0 +1,233 @@
+import { QdrantClient, Schemas } from '@qdrant/js-client-rest';
+import { logger } from '../../utils/logger';
+import { assertEmbeddingSpec } from './compatibility';
+import { isEmptyFilter, matchesFilter, POST_FILTER_OVERFETCH, publishedRange } from './filters';
+import { Document, EmbeddingSpec, SearchFilter, SearchResult, VersionedVectorStoreAdapter } from './types';
+
+export interface QdrantAdapterOptions {
+  url: string;
+  apiKey?: string;
+  collectionName: string;
+}
+
+export class QdrantAdapter implements VersionedVectorStoreAdapter {
+  readonly name = 'qdrant';
+  private client?: QdrantClient;
+
+  constructor(private options: QdrantAdapterOptions) {}
+
+  private get qdrant(): QdrantClient {
+    if (!this.client) throw new Error('Qdrant not initialized');
+    return this.client;
+  }
+
+  async connect(): Promise<void> {
+    this.client = new QdrantClient({
+      url: this.options.url,
+      apiKey: this.options.apiKey,
+    });
+
+    // Test connection
+    await this.client.getCollections();
+  }
+
+  async initialize(embedding: EmbeddingSpec): Promise<void> {
+    await this.connect();
+
+    // Create collection if it doesn't exist, otherwise check it matches the embedding model
+    let info: Schemas['CollectionInfo'] | undefined;
+    try {
+      info = await this.qdrant.getCollection(this.options.collectionName);
+    } catch (error) {
+      logger.info('Creating Qdrant collection...');
+      await this.qdrant.createCollection(this.options.collectionName, {
+        vectors: {
+          size: embedding.dimensions,
+          distance: 'Cosine',
+        },
+        metadata: {
+          embeddingModel: embedding.model,
+          dimensions: embedding.dimensions,
+        },
+      });
+    }
+
+    if (info) {
+      const vectors = info.config.params.vectors;
+      const embeddingModel = info.config.metadata?.embeddingModel;
+      assertEmbeddingSpec(this.options.collectionName, embedding, {
+        model: typeof embeddingModel === 'string' ? embeddingModel : undefined,
+        dimensions: vectors && 'size' in vectors ? Number(vectors.size) : undefined,
+      });
+    }
+
+    // Payload indexes for search filters; creating an existing index is a no-op
+    await this.qdrant.createPayloadIndex(this.options.collectionName, {
+      field_name: 'metadata.source',
+      field_schema: 'keyword',
+      wait: true,
+    });
+    await this.qdrant.createPayloadIndex(this.options.collectionName, {
+      field_name: 'metadata.publishedAt',
+      field_schema: 'integer',
+      wait: true,
+    });
+  }
+
+  async upsert(documents: Document[], embeddings: number[][]): Promise<void> {
+    // Prepare points for Qdrant
+    const points = documents.map((doc, index) => ({
+      id: doc.id,
+      vector: embeddings[index],
+      payload: {
+        content: doc.content,
+        metadata: doc.metadata,
+      },
+    }));
+
+    // Batch insert points
+    const batchSize = 100;
+    for (let i = 0; i < points.length; i += batchSize) {
+      const batch = points.slice(i, i + batchSize);
+      await this.qdrant.upsert(this.options.collectionName, {
+        wait: true,
+        points: batch,
+      });
+    }
+  }
+
+  async search(
+    embedding: number[],
+    topK: number,
+    filter?: SearchFilter,
+    withVectors = false
+  ): Promise<SearchResult[]> {
+    // Qdrant has no prefix match on keyword fields, so urlPrefix is applied after the search
+    const limit = filter?.urlPrefix ? topK * POST_FILTER_OVERFETCH : topK;
+
+    const results = await this.qdrant.search(this.options.collectionName, {
+      vector: embedding,
+      limit,
+      with_payload: true,
+      with_vector: withVectors,
+      filter: this.buildFilter(filter),
+    });
+
+    return results
+      .map(result => ({
+        id: result.id as string,
+        content: result.payload?.content as string,
+        metadata: result.payload?.metadata as SearchResult['metadata'],
+        score: result.score,
+        vector: withVectors ? (result.vector as number[]) : undefined,
+      }))
+      .filter(result => matchesFilter(result.metadata, filter))
+      .slice(0, topK);
+  }
+
+  private buildFilter(filter?: SearchFilter): Schemas['Filter'] | undefined {
+    if (!filter || isEmptyFilter(filter)) return undefined;
+
+    const must: Schemas['FieldCondition'][] = [];
+
+    if (filter.sources?.length) {
+      must.push({ key: 'metadata.source', match: { any: filter.sources } });
+    }
+
+    const { gte, lte } = publishedRange(filter);
+    if (gte !== undefined || lte !== undefined) {
+      must.push({ key: 'metadata.publishedAt', range: { gte, lte } });
+    }
+
+    return must.length > 0 ? { must } : undefined;
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    await this.qdrant.delete(this.options.collectionName, {
+      wait: true,
+      points: ids,
+    });
+  }
+
+  async *scroll(batchSize: number, afterId?: string): AsyncGenerator<Document[]> {
+    // Points come in id order, and a page starts at its offset id, inclusive
+    let offset: string | number | undefined = afterId;
+
+    do {
+      const page = await this.qdrant.scroll(this.options.collectionName, {
+        limit: batchSize,
+        offset,
+        with_payload: true,
+        with_vector: false,
+      });
+
+      const points = page.points.filter(point => point.id !== afterId);
+      if (points.length > 0) {
+        yield points.map(point => ({
+          id: point.id as string,
+          content: point.payload?.content as string,
+          metadata: point.payload?.metadata as Document['metadata'],
+        }));
+      }
+
+      offset = (page.next_page_offset ?? undefined) as string | number | undefined;
+    } while (offset !== undefined);
+  }
+
+  async clear(): Promise<void> {
+    await this.qdrant.delete(this.options.collectionName, {
+      wait: true,
+      filter: {}, // Delete all points
+    });
+  }
+
+  async getCollectionInfo(): Promise<unknown> {
+    return this.qdrant.getCollection(this.options.collectionName);
+  }
+
+  /**
+   * The configured name may be an alias; migrations point it at versioned
+   * collections such as `rag_documents_v2`.
+   */
+  async resolveCollection(): Promise<string> {
+    const { aliases } = await this.qdrant.getAliases();
+    const alias = aliases.find(entry => entry.alias_name === this.options.collectionName);
+    return alias?.collection_name ?? this.options.collectionName;
+  }
+
+  forCollection(name: string): QdrantAdapter {
+    return new QdrantAdapter({ ...this.options, collectionName: name });
+  }
+
+  async promoteCollection(name: string, options: { replaceCollection?: boolean } = {}): Promise<string | null> {
+    const aliasName = this.options.collectionName;
+    const previous = await this.resolveCollection();
+
+    if (previous === aliasName) {
+      // A plain collection holds the name, so it has to go before the alias can be created.
+      // Queries fail until the alias exists, and the old collection can't be restored.
+      if (!options.replaceCollection) {
+        throw new Error(
+          `${aliasName} is a collection, not an alias, so it can't be swapped atomically. ` +
+          `Rerun with --replace-collection to delete it and alias ${name} in its place`
+        );
+      }
+
+      logger.warn(`Deleting collection ${aliasName} to replace it with an alias to ${name}`);
+      await this.qdrant.deleteCollection(aliasName);
+      await this.qdrant.updateCollectionAliases({
+        actions: [{ create_alias: { collection_name: name, alias_name: aliasName } }],
+      });
+      return null;
+    }
+
+    // Both actions are applied in one atomic operation
+    await this.qdrant.updateCollectionAliases({
+      actions: [
+        { delete_alias: { alias_name: aliasName } },
+        { create_alias: { collection_name: name, alias_name: aliasName } },
+      ],
+    });
+    return previous;
+  }
+}
@@ -0,0 +1,96 @@
+export interface Document {
+  id: string;
+  content: string;
+  metadata: {
+    title: string;
+    url: string;
+    timestamp: string;
+    source: string;
+    publishedAt?: number; // epoch ms parsed from timestamp, used for date filters
+  };
+}
+
+export interface SearchResult {
+  id: string;
+  content: string;
+  metadata: Document['metadata'];
+  score: number;
+  vector?: number[]; // only set when requested with `withVectors`
+}
+
+/**
+ * Retrieval constraints on document metadata. All given conditions must hold.
+ */
+export interface SearchFilter {
+  sources?: string[]; // metadata.source is one of these
+  from?: string; // ISO date, inclusive lower bound on publishedAt
+  to?: string; // ISO date, inclusive upper bound on publishedAt
+  urlPrefix?: string;
+}
+
+/**
+ * The embedding model a collection was built with. Vectors from different
+ * models are not comparable, even when their dimensions happen to match.
+ */
+export interface EmbeddingSpec {
+  model: string; // provider-qualified, e.g. 'openai/text-embedding-3-small'
+  dimensions: number;
+}
+
+/**
+ * A vector database backend. Adapters only deal in vectors: embedding the
+ * documents and queries is done once by the VectorStore facade.
+ */
+export interface VectorStoreAdapter {
+  readonly name: string;
+  /**
+   * Connects and creates the collection for `embedding` if it is missing.
+   * Throws EmbeddingMismatchError when an existing collection was built with
+   * another model or dimension.
+   */
+  initialize(embedding: EmbeddingSpec): Promise<void>;
+  upsert(documents: Document[], embeddings: number[][]): Promise<void>;
+  /** `withVectors` also returns each result's stored embedding. */
+  search(embedding: number[], topK: number, filter?: SearchFilter, withVectors?: boolean): Promise<SearchResult[]>;
+  delete(ids: string[]): Promise<void>;
+  /** Yields every stored document, `batchSize` at a time, without embeddings. */
+  scroll(batchSize: number): AsyncGenerator<Document[]>;
+  clear(): Promise<void>;
+  getCollectionInfo(): Promise<unknown>;
+}
+
+/**
+ * Optional capability for backends that can build a collection under a
+ * versioned name and then atomically serve it under the configured name.
+ * Used by the re-embedding migration.
+ */
+export interface VersionedVectorStoreAdapter extends VectorStoreAdapter {
+  /**
+   * Yields documents in id order, starting after the document `afterId`, so
+   * an interrupted scroll can resume from the last id it saw.
+   */
+  scroll(batchSize: number, afterId?: string): AsyncGenerator<Document[]>;
+  /** Connects without creating or checking the collection, e.g. to read one built with another model. */
+  connect(): Promise<void>;
+  /** The physical collection currently served under the configured name. */
+  resolveCollection(): Promise<string>;
+  /** An unconnected adapter for the physical collection `name`, with the same connection settings. */
+  forCollection(name: string): VersionedVectorStoreAdapter;
+  /**
+   * Atomically serves `name` under the configured name. Returns what the
+   * previous collection is now called, or null if it had to be deleted.
+   * Backends that can only do so by deleting the previous collection first
+   * refuse unless `replaceCollection` is set.
+   */
+  promoteCollection(name: string, options?: { replaceCollection?: boolean }): Promise<string | null>;
+}
+
+export function isVersionedAdapter(adapter: VectorStoreAdapter): adapter is VersionedVectorStoreAdapter {
+  return 'promoteCollection' in adapter && 'forCollection' in adapter;
+}
+
+/**
+ * Creates an adapter for the configured collection, or for `collectionName`
+ * when given, e.g. the semantic cache's collection.
+ */
+export type VectorStoreAdapterFactory = (collectionName?: string) => VectorStoreAdapter;
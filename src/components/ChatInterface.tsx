@@ -1,13 +1,30 @@
 import { useState, useRef, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
-import { ChatMessage } from "./ChatMessage";
-import { Send, RotateCcw, Settings, Database, Brain } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { SidebarTrigger } from "@/components/ui/sidebar";
+import { ChatMessage, FeedbackInput } from "./ChatMessage";
+import { Send, RotateCcw, Settings, Database, Brain, X, Loader2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useIngestionJob } from "@/hooks/use-ingestion-job";
+import { useChatSessions } from "@/hooks/use-chat-sessions";
+import {
+  editMessage,
+  FeedbackRating,
+  getChatHistory,
+  HistoryMessage,
+  IngestJob,
+  regenerateAnswer,
+  sendChatMessage,
+  sendFeedback,
+  SendMessageResult,
+  switchBranch,
+} from "@/lib/api";
 import {
   Dialog,
   DialogContent,
@@ -19,6 +36,7 @@ import {
 
 interface Message {
   id: string;
+  messageId?: string; // server-side id, set once the message is stored
   content: string;
   role: "user" | "assistant";
   timestamp: Date;
@@ -27,16 +45,38 @@ interface Message {
     url: string;
     relevance: number;
   }>;
+  feedback?: FeedbackRating;
+  siblingIds?: string[]; // server ids of the alternatives to this message, itself included
 }
 
+const fromHistory = (message: HistoryMessage): Message => ({
+  id: message.id,
+  messageId: message.id,
+  content: message.content,
+  role: message.role,
+  timestamp: new Date(message.timestamp),
+  sources: message.sources,
+  feedback: message.feedback?.rating,
+  siblingIds: message.siblingIds,
+});
+
+// The backend saves the generated title shortly after the first reply
+const TITLE_REFRESH_DELAY_MS = 3000;
+
 export const ChatInterface = () => {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [sessionId] = useState(() => `session-${Date.now()}`);
-  const [isIngestingData, setIsIngestingData] = useState(false);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [isStartingIngestion, setIsStartingIngestion] = useState(false);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Set when this component created the session, whose messages are already on screen
+  const createdSessionRef = useRef<string | null>(null);
   const { toast } = useToast();
+  const { refresh: refreshSessions } = useChatSessions();
 
   const scrollToBottom = () => {
     if (scrollAreaRef.current) {
@@ -51,155 +91,299 @@ export const ChatInterface = () => {
     scrollToBottom();
   }, [messages]);
 
-  const simulateRAGResponse = async (userMessage: string): Promise<Message> => {
-    // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1000 + Math.random() * 2000));
-    
-    // Mock sources based on user query
-    const mockSources = [
-      {
-        title: "Latest Technology News",
-        url: "https://example.com/tech-news",
-        relevance: 0.95
-      },
-      {
-        title: "Research Article on AI",
-        url: "https://example.com/ai-research", 
-        relevance: 0.87
-      },
-      {
-        title: "Industry Report 2024",
-        url: "https://example.com/industry-report",
-        relevance: 0.73
-      }
-    ];
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
-    const responses = [
-      `Based on the latest news articles I've analyzed, here's what I found regarding "${userMessage}": 
+  // Load the conversation whenever the route points at another session
+  useEffect(() => {
+    if (sessionId && sessionId === createdSessionRef.current) {
+      createdSessionRef.current = null;
+      return;
+    }
 
-The current trends show significant developments in this area. Recent reports indicate that technological advancements are accelerating rapidly, with new innovations emerging weekly.
+    abortControllerRef.current?.abort();
+    setMessages([]);
+    if (!sessionId) return;
 
-Key points from my knowledge base:
-• Market analysis suggests continued growth
-• Expert opinions are generally positive
-• Recent studies support these findings
+    let cancelled = false;
+    setIsLoadingHistory(true);
 
-Would you like me to elaborate on any specific aspect?`,
-      
-      `I've searched through my knowledge base and found relevant information about "${userMessage}". 
+    getChatHistory(sessionId)
+      .then((history) => {
+        if (cancelled) return;
+        setMessages(history.map(fromHistory));
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        toast({
+          title: "Could not load chat",
+          description: error instanceof Error ? error.message : "Failed to load chat history",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingHistory(false);
+      });
 
-From the documentation I have access to, it appears that this topic has gained significant attention recently. The retrieved articles suggest several important considerations:
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, toast]);
 
-1. **Current Status**: The field is evolving rapidly
-2. **Future Outlook**: Experts predict continued innovation
-3. **Best Practices**: Industry standards are being established
+  // Shows `question` after the `kept` messages and streams the answer from `request` below it.
+  // If the request fails, `fallback` is shown instead when given. Returns whether it succeeded.
+  const streamTurn = async (
+    kept: Message[],
+    question: Message,
+    request: (callbacks: { signal: AbortSignal; onToken: (token: string) => void }) => Promise<SendMessageResult>,
+    fallback?: Message[]
+  ): Promise<boolean> => {
+    setIsLoading(true);
 
-The sources I referenced provide comprehensive coverage of this topic.`,
-      
-      `Let me provide you with insights about "${userMessage}" based on my analysis of recent articles and reports.
+    abortControllerRef.current?.abort();
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-According to the retrieved documents, this is a particularly interesting area with several key developments:
+    // Add streaming placeholder
+    const streamingId = `streaming-${Date.now()}`;
+    setMessages([...kept, question, {
+      id: streamingId,
+      content: "Thinking...",
+      role: "assistant",
+      timestamp: new Date(),
+    }]);
 
-• **Recent Updates**: New information has emerged in the past few months
-• **Expert Analysis**: Leading researchers are optimistic about future prospects  
-• **Practical Applications**: Real-world implementations are showing promising results
+    try {
+      let receivedToken = false;
+      const response = await request({
+        signal: abortController.signal,
+        onToken: (token) => {
+          const isFirstToken = !receivedToken;
+          receivedToken = true;
+          setMessages(prev => prev.map(msg =>
+            msg.id === streamingId
+              ? { ...msg, content: isFirstToken ? token : msg.content + token }
+              : msg
+          ));
+        },
+      });
 
-The information comes from verified news sources and research publications in my knowledge base.`
-    ];
+      if (response.sessionId !== sessionId) {
+        createdSessionRef.current = response.sessionId;
+        navigate(`/chat/${encodeURIComponent(response.sessionId)}`, { replace: !sessionId });
+      }
+      refreshSessions();
+      if (kept.length === 0) {
+        setTimeout(refreshSessions, TITLE_REFRESH_DELAY_MS);
+      }
 
-    return {
-      id: `msg-${Date.now()}-${Math.random()}`,
-      content: responses[Math.floor(Math.random() * responses.length)],
-      role: "assistant",
-      timestamp: new Date(),
-      sources: mockSources.slice(0, 2 + Math.floor(Math.random() * 2))
-    };
+      // Replace streaming message with the completed response, and attach the server ids
+      setMessages(prev => prev.map(msg => {
+        if (msg.id === question.id) {
+          return { ...msg, messageId: response.userMessageId };
+        }
+        if (msg.id === streamingId) {
+          return {
+            id: response.messageId ?? `msg-${Date.now()}`,
+            messageId: response.messageId,
+            content: response.content,
+            role: "assistant",
+            timestamp: new Date(),
+            sources: response.sources,
+          };
+        }
+        return msg;
+      }));
+      return true;
+
+    } catch (error) {
+      // Remove streaming message on error
+      setMessages(prev => fallback ?? prev.filter(msg => msg.id !== streamingId));
+
+      if (abortController.signal.aborted) return false;
+
+      toast({
+        title: "Error",
+        description: error instanceof Error && error.message
+          ? error.message
+          : "Failed to generate response. Please try again.",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+        setIsLoading(false);
+      }
+    }
   };
 
   const handleSendMessage = async () => {
     if (!input.trim() || isLoading) return;
 
+    const content = input.trim();
     const userMessage: Message = {
       id: `msg-${Date.now()}`,
-      content: input.trim(),
+      content,
       role: "user",
       timestamp: new Date(),
     };
-
-    setMessages(prev => [...prev, userMessage]);
     setInput("");
-    setIsLoading(true);
+
+    await streamTurn(messages, userMessage, (callbacks) => sendChatMessage({
+      sessionId: sessionId ?? undefined,
+      message: content,
+      ...callbacks,
+    }));
+  };
+
+  // Regenerating and editing add an alternative next to the old messages, so the branch
+  // arrows only count it once the history is reloaded. A failure adds nothing.
+  const reloadHistory = async () => {
+    if (!sessionId) return;
 
     try {
-      // Add streaming placeholder
-      const streamingId = `streaming-${Date.now()}`;
-      setMessages(prev => [...prev, {
-        id: streamingId,
-        content: "Thinking...",
-        role: "assistant",
-        timestamp: new Date(),
-      }]);
-
-      const response = await simulateRAGResponse(input.trim());
-      
-      // Replace streaming message with actual response
-      setMessages(prev => prev.map(msg => 
-        msg.id === streamingId ? response : msg
-      ));
+      const history = await getChatHistory(sessionId);
+      setMessages(history.map(fromHistory));
+    } catch {
+      // The new answer is already on screen, only the arrows are stale
+    }
+  };
 
-      toast({
-        title: "Response generated",
-        description: "Retrieved relevant information from knowledge base",
-      });
+  const handleRegenerate = async () => {
+    const index = messages.map(msg => msg.role).lastIndexOf("user");
+    if (!sessionId || isLoading || index === -1) return;
+
+    const succeeded = await streamTurn(
+      messages.slice(0, index),
+      messages[index],
+      (callbacks) => regenerateAnswer({ sessionId, ...callbacks }),
+      messages
+    );
+    if (succeeded) await reloadHistory();
+  };
 
+  const handleEdit = async (message: Message, content: string) => {
+    const index = messages.findIndex(msg => msg.id === message.id);
+    if (!sessionId || !message.messageId || isLoading || index === -1) return;
+
+    const question: Message = {
+      id: `msg-${Date.now()}`,
+      content,
+      role: "user",
+      timestamp: new Date(),
+    };
+
+    const succeeded = await streamTurn(
+      messages.slice(0, index),
+      question,
+      (callbacks) => editMessage({ sessionId, messageId: message.messageId!, message: content, ...callbacks }),
+      messages
+    );
+    if (succeeded) await reloadHistory();
+  };
+
+  const handleSwitchBranch = async (message: Message, direction: -1 | 1) => {
+    const siblingIds = message.siblingIds ?? [];
+    const target = siblingIds[siblingIds.indexOf(message.messageId ?? "") + direction];
+    if (!sessionId || !target || isLoading) return;
+
+    try {
+      const history = await switchBranch(sessionId, target);
+      setMessages(history.map(fromHistory));
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to generate response. Please try again.",
+        title: "Could not switch version",
+        description: error instanceof Error ? error.message : "Failed to switch branch",
         variant: "destructive",
       });
-      
-      // Remove streaming message on error
-      setMessages(prev => prev.filter(msg => !msg.id.startsWith('streaming-')));
-    } finally {
-      setIsLoading(false);
     }
   };
 
+  const handleFeedback = async (message: Message, feedback: FeedbackInput) => {
+    if (!sessionId || !message.messageId) return;
+    await sendFeedback({ sessionId, messageId: message.messageId, ...feedback });
+  };
+
   const handleResetSession = () => {
+    abortControllerRef.current?.abort();
     setMessages([]);
+    navigate("/");
     toast({
       title: "Session reset",
-      description: "Chat history has been cleared",
+      description: "Started a new chat",
     });
   };
 
-  const handleIngestData = async () => {
-    setIsIngestingData(true);
-    try {
-      // Simulate data ingestion
-      await new Promise(resolve => setTimeout(resolve, 3000));
+  const handleIngestionFinished = (job: IngestJob) => {
+    const { articlesFetched, chunksEmbedded } = job.progress;
+
+    if (job.status === "completed") {
       toast({
         title: "Data ingestion complete",
-        description: "Knowledge base has been updated with latest articles",
+        description: `Added ${chunksEmbedded} chunks from ${articlesFetched} articles`,
+      });
+    } else if (job.status === "cancelled") {
+      toast({
+        title: "Ingestion cancelled",
+        description: `${chunksEmbedded} chunks were added before cancelling`,
+      });
+    } else {
+      toast({
+        title: "Ingestion failed",
+        description: job.error || "Failed to update knowledge base",
+        variant: "destructive",
       });
+    }
+  };
+
+  const {
+    job: ingestJob,
+    isRunning: isIngestingData,
+    start: startIngestion,
+    cancel: cancelIngestion,
+  } = useIngestionJob(handleIngestionFinished);
+
+  const handleIngestData = async () => {
+    setIsStartingIngestion(true);
+    try {
+      await startIngestion();
     } catch (error) {
       toast({
         title: "Ingestion failed",
-        description: "Failed to update knowledge base",
+        description: error instanceof Error ? error.message : "Failed to update knowledge base",
         variant: "destructive",
       });
     } finally {
-      setIsIngestingData(false);
+      setIsStartingIngestion(false);
+    }
+  };
+
+  const handleCancelIngestion = async () => {
+    try {
+      await cancelIngestion();
+    } catch (error) {
+      toast({
+        title: "Cancel failed",
+        description: error instanceof Error ? error.message : "Failed to cancel ingestion",
+        variant: "destructive",
+      });
     }
   };
 
+  const ingestProgress = ingestJob?.progress;
+  const ingestPercent = ingestProgress?.chunksTotal
+    ? Math.round((ingestProgress.chunksEmbedded / ingestProgress.chunksTotal) * 100)
+    : 0;
+
   return (
     <div className="flex flex-col h-screen bg-background">
       {/* Header */}
       <div className="border-b border-border bg-gradient-card p-4">
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
+            <SidebarTrigger />
             <div className="w-8 h-8 rounded-full bg-gradient-primary flex items-center justify-center shadow-glow animate-glow-pulse">
               <Brain className="w-4 h-4 text-primary-foreground" />
             </div>
@@ -211,7 +395,7 @@ The information comes from verified news sources and research publications in my
           
           <div className="flex items-center gap-2">
             <Badge variant="secondary" className="text-xs">
-              Session: {sessionId.slice(-8)}
+              Session: {sessionId ? sessionId.slice(-8) : "new"}
             </Badge>
             
             <Dialog>
@@ -228,15 +412,34 @@ The information comes from verified news sources and research publications in my
                   </DialogDescription>
                 </DialogHeader>
                 <div className="space-y-4">
-                  <Button 
-                    onClick={handleIngestData} 
-                    disabled={isIngestingData}
-                    className="w-full"
-                    variant="outline"
-                  >
-                    <Database className="w-4 h-4 mr-2" />
-                    {isIngestingData ? "Ingesting..." : "Update Knowledge Base"}
-                  </Button>
+                  <div className="flex gap-2">
+                    <Button 
+                      onClick={handleIngestData} 
+                      disabled={isIngestingData || isStartingIngestion}
+                      className="flex-1"
+                      variant="outline"
+                    >
+                      <Database className="w-4 h-4 mr-2" />
+                      {isIngestingData ? "Ingesting..." : "Update Knowledge Base"}
+                    </Button>
+                    {isIngestingData && (
+                      <Button onClick={handleCancelIngestion} variant="ghost" size="icon">
+                        <X className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </div>
+                  {ingestJob && ingestProgress && (
+                    <div className="space-y-2">
+                      <Progress value={ingestJob.status === "completed" ? 100 : ingestPercent} className="h-2" />
+                      <p className="text-xs text-muted-foreground">
+                        {ingestProgress.articlesFetched} articles fetched
+                        {" • "}
+                        {ingestProgress.chunksEmbedded}/{ingestProgress.chunksTotal || "?"} chunks embedded
+                        {ingestProgress.errors > 0 && ` • ${ingestProgress.errors} errors`}
+                        {ingestJob.status !== "running" && ` • ${ingestJob.status}`}
+                      </p>
+                    </div>
+                  )}
                   <Button 
                     onClick={handleResetSession}
                     variant="destructive"
@@ -256,7 +459,11 @@ The information comes from verified news sources and research publications in my
       <div className="flex-1 overflow-hidden">
         <ScrollArea className="h-full" ref={scrollAreaRef}>
           <div className="p-4 space-y-4">
-            {messages.length === 0 ? (
+            {isLoadingHistory ? (
+              <div className="flex items-center justify-center h-[60vh]">
+                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : messages.length === 0 ? (
               <div className="flex items-center justify-center h-[60vh]">
                 <Card className="p-8 max-w-md text-center bg-gradient-card border-ai-glow/20">
                   <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-gradient-primary flex items-center justify-center shadow-glow animate-float">
@@ -274,11 +481,28 @@ The information comes from verified news sources and research publications in my
                 </Card>
               </div>
             ) : (
-              messages.map((message) => (
+              messages.map((message, index) => (
                 <ChatMessage 
                   key={message.id} 
                   message={message} 
                   isStreaming={message.id.startsWith('streaming-')}
+                  onFeedback={message.messageId ? (feedback) => handleFeedback(message, feedback) : undefined}
+                  onRegenerate={
+                    message.role === "assistant" && index === messages.length - 1 && !isLoading
+                      ? handleRegenerate
+                      : undefined
+                  }
+                  onEdit={
+                    message.role === "user" && message.messageId && !isLoading
+                      ? (content) => handleEdit(message, content)
+                      : undefined
+                  }
+                  branch={
+                    message.messageId && message.siblingIds
+                      ? { index: message.siblingIds.indexOf(message.messageId), count: message.siblingIds.length }
+                      : undefined
+                  }
+                  onSwitchBranch={isLoading ? undefined : (direction) => handleSwitchBranch(message, direction)}
                 />
               ))
             )}
@@ -296,7 +520,7 @@ The information comes from verified news sources and research publications in my
             onChange={(e) => setInput(e.target.value)}
             placeholder="Ask me anything about current events, technology, or research..."
             onKeyDown={(e) => e.key === "Enter" && !e.shiftKey && handleSendMessage()}
-            disabled={isLoading}
+            disabled={isLoading || isLoadingHistory}
             className="flex-1 bg-background border-ai-glow/20 focus:border-ai-glow transition-colors"
           />
           <Button 
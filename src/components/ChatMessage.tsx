@@ -1,9 +1,24 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card } from "@/components/ui/card";
-import { Bot, User, Copy, ThumbsUp, ThumbsDown } from "lucide-react";
+import { Bot, User, Copy, ThumbsUp, ThumbsDown, RefreshCw, Pencil, ChevronLeft, ChevronRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Textarea } from "@/components/ui/textarea";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { FeedbackCategory, FeedbackRating } from "@/lib/api";
+
+export interface FeedbackInput {
+  rating: FeedbackRating;
+  reason?: string;
+  category?: FeedbackCategory;
+}
+
+const FEEDBACK_CATEGORIES: Array<{ value: FeedbackCategory; label: string }> = [
+  { value: "wrong", label: "Wrong" },
+  { value: "outdated", label: "Outdated" },
+  { value: "missing_source", label: "Missing source" },
+];
 
 interface ChatMessageProps {
   message: {
@@ -16,12 +31,72 @@ interface ChatMessageProps {
       url: string;
       relevance: number;
     }>;
+    feedback?: FeedbackRating;
   };
   isStreaming?: boolean;
+  /** Sends a rating to the backend; without it the thumbs are hidden. */
+  onFeedback?: (feedback: FeedbackInput) => Promise<void>;
+  /** Asks for another answer; only offered on the latest answer. */
+  onRegenerate?: () => void;
+  /** Sends a user message with new content, as an alternative to the original. */
+  onEdit?: (content: string) => void;
+  /** Position among the alternatives to this message; arrows show when there are several. */
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (direction: -1 | 1) => void;
 }
 
-export const ChatMessage = ({ message, isStreaming = false }: ChatMessageProps) => {
-  const [feedback, setFeedback] = useState<'up' | 'down' | null>(null);
+const BranchSwitcher = ({
+  branch,
+  onSwitch,
+  className,
+}: {
+  branch: { index: number; count: number };
+  onSwitch?: (direction: -1 | 1) => void;
+  className: string;
+}) => (
+  <div className={`flex items-center text-xs ${className}`}>
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => onSwitch?.(-1)}
+      disabled={!onSwitch || branch.index === 0}
+      className="h-6 w-6 p-0 hover:bg-transparent"
+    >
+      <ChevronLeft className="w-3 h-3" />
+      <span className="sr-only">Previous version</span>
+    </Button>
+    <span className="tabular-nums">
+      {branch.index + 1} / {branch.count}
+    </span>
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => onSwitch?.(1)}
+      disabled={!onSwitch || branch.index === branch.count - 1}
+      className="h-6 w-6 p-0 hover:bg-transparent"
+    >
+      <ChevronRight className="w-3 h-3" />
+      <span className="sr-only">Next version</span>
+    </Button>
+  </div>
+);
+
+export const ChatMessage = ({
+  message,
+  isStreaming = false,
+  onFeedback,
+  onRegenerate,
+  onEdit,
+  branch,
+  onSwitchBranch,
+}: ChatMessageProps) => {
+  const [feedback, setFeedback] = useState<FeedbackRating | null>(message.feedback ?? null);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [category, setCategory] = useState<FeedbackCategory | undefined>();
+  const [reason, setReason] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const { toast } = useToast();
 
   const copyToClipboard = async () => {
@@ -32,16 +107,47 @@ export const ChatMessage = ({ message, isStreaming = false }: ChatMessageProps)
     });
   };
 
-  const handleFeedback = (type: 'up' | 'down') => {
-    setFeedback(type);
-    toast({
-      title: `Feedback recorded`,
-      description: `Thank you for your ${type === 'up' ? 'positive' : 'negative'} feedback!`,
-      duration: 2000,
-    });
+  const handleFeedback = async (input: FeedbackInput) => {
+    if (!onFeedback) return;
+
+    setIsSubmitting(true);
+    try {
+      await onFeedback(input);
+      setFeedback(input.rating);
+      setIsReportOpen(false);
+      toast({
+        title: `Feedback recorded`,
+        description: `Thank you for your ${input.rating === 'up' ? 'positive' : 'negative'} feedback!`,
+        duration: 2000,
+      });
+    } catch (error) {
+      toast({
+        title: "Feedback failed",
+        description: error instanceof Error ? error.message : "Failed to record feedback",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const content = draft.trim();
+    if (!content || !onEdit) return;
+
+    setIsEditing(false);
+    if (content !== message.content) {
+      onEdit(content);
+    }
   };
 
   const isUser = message.role === "user";
+  const hasBranches = branch !== undefined && branch.count > 1;
 
   return (
     <div className={`flex gap-4 mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -59,16 +165,66 @@ export const ChatMessage = ({ message, isStreaming = false }: ChatMessageProps)
           : 'bg-gradient-card border-ai-glow/20 shadow-ai'
       }`}>
         <div className="space-y-3">
-          <div className={`prose prose-sm max-w-none ${
-            isUser ? 'text-primary-foreground' : 'text-foreground'
-          }`}>
-            <p className={`whitespace-pre-wrap ${isStreaming ? 'animate-type-writer' : ''}`}>
-              {message.content}
-            </p>
-            {isStreaming && (
-              <span className="inline-block w-2 h-4 bg-ai-glow animate-pulse ml-1" />
-            )}
-          </div>
+          {isEditing ? (
+            <div className="space-y-2">
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  }
+                  if (e.key === "Escape") setIsEditing(false);
+                }}
+                maxLength={4000}
+                autoFocus
+                className="min-w-[280px] bg-background text-foreground"
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </Button>
+                <Button variant="secondary" size="sm" onClick={submitEdit} disabled={!draft.trim()}>
+                  Save & send
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className={`prose prose-sm max-w-none ${
+              isUser ? 'text-primary-foreground' : 'text-foreground'
+            }`}>
+              <p className={`whitespace-pre-wrap ${isStreaming ? 'animate-type-writer' : ''}`}>
+                {message.content}
+              </p>
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 bg-ai-glow animate-pulse ml-1" />
+              )}
+            </div>
+          )}
+
+          {isUser && (onEdit || hasBranches) && !isEditing && (
+            <div className="flex items-center justify-end gap-1">
+              {hasBranches && (
+                <BranchSwitcher
+                  branch={branch}
+                  onSwitch={onSwitchBranch}
+                  className="text-primary-foreground/70"
+                />
+              )}
+              {onEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={startEditing}
+                  className="h-6 w-6 p-0 text-primary-foreground/70 hover:text-primary-foreground hover:bg-primary-foreground/10"
+                >
+                  <Pencil className="w-3 h-3" />
+                  <span className="sr-only">Edit message</span>
+                </Button>
+              )}
+            </div>
+          )}
 
           {message.sources && message.sources.length > 0 && (
             <div className="mt-3 p-3 bg-muted/50 rounded-md border border-ai-glow/10">
@@ -105,26 +261,80 @@ export const ChatMessage = ({ message, isStreaming = false }: ChatMessageProps)
               >
                 <Copy className="w-3 h-3" />
               </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleFeedback('up')}
-                className={`h-7 w-7 p-0 hover:bg-ai-glow/10 ${
-                  feedback === 'up' ? 'text-ai-glow' : ''
-                }`}
-              >
-                <ThumbsUp className="w-3 h-3" />
-              </Button>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => handleFeedback('down')}
-                className={`h-7 w-7 p-0 hover:bg-destructive/10 ${
-                  feedback === 'down' ? 'text-destructive' : ''
-                }`}
-              >
-                <ThumbsDown className="w-3 h-3" />
-              </Button>
+              {hasBranches && (
+                <BranchSwitcher branch={branch} onSwitch={onSwitchBranch} className="text-muted-foreground" />
+              )}
+              {onRegenerate && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={onRegenerate}
+                  className="h-7 w-7 p-0 hover:bg-ai-glow/10"
+                >
+                  <RefreshCw className="w-3 h-3" />
+                  <span className="sr-only">Regenerate answer</span>
+                </Button>
+              )}
+              {onFeedback && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleFeedback({ rating: 'up' })}
+                    disabled={isSubmitting}
+                    className={`h-7 w-7 p-0 hover:bg-ai-glow/10 ${
+                      feedback === 'up' ? 'text-ai-glow' : ''
+                    }`}
+                  >
+                    <ThumbsUp className="w-3 h-3" />
+                  </Button>
+                  <Popover open={isReportOpen} onOpenChange={setIsReportOpen}>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isSubmitting}
+                        className={`h-7 w-7 p-0 hover:bg-destructive/10 ${
+                          feedback === 'down' ? 'text-destructive' : ''
+                        }`}
+                      >
+                        <ThumbsDown className="w-3 h-3" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent align="start" className="space-y-3">
+                      <p className="text-sm font-medium">What was wrong with this answer?</p>
+                      <div className="flex flex-wrap gap-2">
+                        {FEEDBACK_CATEGORIES.map(({ value, label }) => (
+                          <Button
+                            key={value}
+                            variant={category === value ? "secondary" : "outline"}
+                            size="sm"
+                            onClick={() => setCategory(category === value ? undefined : value)}
+                            className="h-7 text-xs"
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                      <Textarea
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value)}
+                        placeholder="Tell us more (optional)"
+                        maxLength={1000}
+                        className="text-sm"
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => handleFeedback({ rating: 'down', category, reason: reason.trim() || undefined })}
+                        disabled={isSubmitting}
+                        className="w-full"
+                      >
+                        Send feedback
+                      </Button>
+                    </PopoverContent>
+                  </Popover>
+                </>
+              )}
               <span className="text-xs text-muted-foreground ml-auto">
                 {message.timestamp.toLocaleTimeString()}
               </span>
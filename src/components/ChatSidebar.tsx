@@ -0,0 +1,199 @@
+import { useState } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { MessageSquare, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useChatSessions } from "@/hooks/use-chat-sessions";
+import { ChatSession } from "@/lib/api";
+
+export const ChatSidebar = () => {
+  const { sessionId: activeSessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { sessions, rename, remove } = useChatSessions();
+
+  const [renaming, setRenaming] = useState<ChatSession | null>(null);
+  const [title, setTitle] = useState("");
+  const [deleting, setDeleting] = useState<ChatSession | null>(null);
+
+  const openRename = (session: ChatSession) => {
+    setRenaming(session);
+    setTitle(session.title);
+  };
+
+  const handleRename = async () => {
+    if (!renaming || !title.trim()) return;
+
+    try {
+      await rename.mutateAsync({ sessionId: renaming.id, title: title.trim() });
+      setRenaming(null);
+    } catch (error) {
+      toast({
+        title: "Rename failed",
+        description: error instanceof Error ? error.message : "Failed to rename chat",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+
+    try {
+      await remove.mutateAsync(deleting.id);
+      if (deleting.id === activeSessionId) {
+        navigate("/");
+      }
+    } catch (error) {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete chat",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Button asChild variant="outline" className="w-full justify-start">
+          <Link to="/">
+            <Plus className="w-4 h-4 mr-2" />
+            New chat
+          </Link>
+        </Button>
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Chats</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {sessions.isLoading &&
+                Array.from({ length: 4 }, (_, index) => (
+                  <SidebarMenuItem key={index}>
+                    <SidebarMenuSkeleton showIcon />
+                  </SidebarMenuItem>
+                ))}
+
+              {sessions.isError && (
+                <p className="px-2 text-xs text-muted-foreground">Could not load chats</p>
+              )}
+
+              {sessions.data?.length === 0 && (
+                <p className="px-2 text-xs text-muted-foreground">No chats yet</p>
+              )}
+
+              {sessions.data?.map((session) => (
+                <SidebarMenuItem key={session.id}>
+                  <SidebarMenuButton asChild isActive={session.id === activeSessionId} tooltip={session.title}>
+                    <Link to={`/chat/${encodeURIComponent(session.id)}`}>
+                      <MessageSquare />
+                      <span>{session.title}</span>
+                    </Link>
+                  </SidebarMenuButton>
+
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <SidebarMenuAction showOnHover>
+                        <MoreHorizontal />
+                        <span className="sr-only">Chat actions</span>
+                      </SidebarMenuAction>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent side="right" align="start">
+                      <DropdownMenuItem onSelect={() => openRename(session)}>
+                        <Pencil className="w-4 h-4 mr-2" />
+                        Rename
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => setDeleting(session)} className="text-destructive">
+                        <Trash2 className="w-4 h-4 mr-2" />
+                        Delete
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <Dialog open={renaming !== null} onOpenChange={(open) => !open && setRenaming(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename chat</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleRename()}
+            maxLength={100}
+            autoFocus
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenaming(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRename} disabled={!title.trim() || rename.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete chat?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleting?.title}" and its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,30 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteSession, listSessions, renameSession } from "@/lib/api";
+
+export const CHAT_SESSIONS_QUERY_KEY = ["chat-sessions"];
+
+/**
+ * Sessions from the backend, most recently updated first, with rename and
+ * delete mutations that refresh the list when they settle.
+ */
+export function useChatSessions() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: CHAT_SESSIONS_QUERY_KEY });
+
+  const sessions = useQuery({
+    queryKey: CHAT_SESSIONS_QUERY_KEY,
+    queryFn: listSessions,
+  });
+
+  const rename = useMutation({
+    mutationFn: ({ sessionId, title }: { sessionId: string; title: string }) => renameSession(sessionId, title),
+    onSettled: invalidate,
+  });
+
+  const remove = useMutation({
+    mutationFn: (sessionId: string) => deleteSession(sessionId),
+    onSettled: invalidate,
+  });
+
+  return { sessions, rename, remove, refresh: invalidate };
+}
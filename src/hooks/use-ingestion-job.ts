@@ -0,0 +1,57 @@
+import * as React from "react";
+import { cancelIngestion, getIngestionJob, IngestJob, startIngestion } from "@/lib/api";
+
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Starts a backend ingestion job and polls it until it finishes.
+ * `onFinished` runs once with the final job state.
+ */
+export function useIngestionJob(onFinished: (job: IngestJob) => void) {
+  const [job, setJob] = React.useState<IngestJob | null>(null);
+  const onFinishedRef = React.useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  const jobId = job?.id;
+  const isRunning = job?.status === "running";
+
+  React.useEffect(() => {
+    if (!jobId || !isRunning) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const poll = async () => {
+      try {
+        const next = await getIngestionJob(jobId);
+        if (cancelled) return;
+
+        setJob(next);
+        if (next.status === "running") {
+          timer = setTimeout(poll, POLL_INTERVAL_MS);
+        } else {
+          onFinishedRef.current(next);
+        }
+      } catch {
+        // Keep polling through transient network errors
+        if (!cancelled) timer = setTimeout(poll, POLL_INTERVAL_MS);
+      }
+    };
+
+    timer = setTimeout(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [jobId, isRunning]);
+
+  const start = React.useCallback(async (maxArticles?: number) => {
+    setJob(await startIngestion(maxArticles));
+  }, []);
+
+  const cancel = React.useCallback(async () => {
+    if (jobId) await cancelIngestion(jobId);
+  }, [jobId]);
+
+  return { job, isRunning, start, cancel };
+}
@@ -0,0 +1,300 @@
+export const API_URL = import.meta.env.VITE_API_URL || "http://localhost:3001";
+
+export interface Source {
+  title: string;
+  url: string;
+  relevance: number;
+}
+
+export interface StreamFrame {
+  content: string;
+  done: boolean;
+  sources?: Source[];
+  sessionId?: string;
+  userMessageId?: string;
+  messageId?: string;
+  error?: string;
+}
+
+export interface SearchFilter {
+  sources?: string[];
+  from?: string;
+  to?: string;
+  urlPrefix?: string;
+}
+
+interface StreamCallbacks {
+  signal?: AbortSignal;
+  onToken: (token: string) => void;
+}
+
+export interface SendMessageParams extends StreamCallbacks {
+  sessionId?: string;
+  message: string;
+  filter?: SearchFilter;
+}
+
+export type LLMProvider = "gemini" | "openai" | "huggingface";
+
+export interface RegenerateParams extends StreamCallbacks {
+  sessionId: string;
+  provider?: LLMProvider;
+  temperature?: number;
+}
+
+export interface EditMessageParams extends StreamCallbacks {
+  sessionId: string;
+  messageId: string;
+  message: string;
+}
+
+export interface SendMessageResult {
+  sessionId: string;
+  userMessageId?: string; // server ids of the question and the answer
+  messageId?: string;
+  content: string;
+  sources: Source[];
+}
+
+export type FeedbackRating = "up" | "down";
+export type FeedbackCategory = "wrong" | "outdated" | "missing_source";
+
+export interface MessageFeedback {
+  rating: FeedbackRating;
+  reason?: string;
+  category?: FeedbackCategory;
+  createdAt: string;
+}
+
+export interface ChatSession {
+  id: string;
+  title: string;
+  titleSource: "message" | "generated" | "user";
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+export interface HistoryMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: string;
+  sources?: Source[];
+  feedback?: MessageFeedback;
+  parentId: string | null;
+  siblingIds: string[]; // alternatives to this message, itself included, oldest first
+}
+
+export type IngestJobStatus = "running" | "completed" | "failed" | "cancelled";
+
+export interface IngestJob {
+  id: string;
+  status: IngestJobStatus;
+  progress: {
+    articlesFetched: number;
+    chunksTotal: number;
+    chunksEmbedded: number;
+    errors: number;
+  };
+  errorMessages: string[];
+  error?: string;
+  createdAt: string;
+  finishedAt?: string;
+}
+
+export class ApiError extends Error {
+  constructor(message: string, public status?: number, public body?: Record<string, unknown>) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+const readError = async (response: Response): Promise<ApiError> => {
+  try {
+    const body = await response.json();
+    return new ApiError(body.message || body.error || response.statusText, response.status, body);
+  } catch {
+    return new ApiError(response.statusText || `HTTP ${response.status}`, response.status);
+  }
+};
+
+const requestJson = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${API_URL}${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  return response.json() as Promise<T>;
+};
+
+// Splits a text/event-stream body into the JSON payloads of its `data:` lines.
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<StreamFrame> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = event
+          .split("\n")
+          .filter(line => line.startsWith("data:"))
+          .map(line => line.slice(5).trimStart())
+          .join("\n");
+
+        if (data) {
+          yield JSON.parse(data) as StreamFrame;
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Posts to an endpoint that answers like /api/chat/send, streaming tokens as they arrive
+const streamAnswer = async (
+  path: string,
+  payload: { sessionId?: string; [field: string]: unknown },
+  { signal, onToken }: StreamCallbacks
+): Promise<SendMessageResult> => {
+  const response = await fetch(`${API_URL}${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream, application/json",
+    },
+    body: JSON.stringify(payload),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw await readError(response);
+  }
+
+  // Providers that cannot stream get a single JSON reply instead of SSE frames
+  if (!response.headers.get("Content-Type")?.includes("text/event-stream")) {
+    const body = await response.json();
+    onToken(body.response);
+    return {
+      sessionId: body.sessionId,
+      userMessageId: body.userMessageId,
+      messageId: body.messageId,
+      content: body.response,
+      sources: body.sources || [],
+    };
+  }
+
+  const result: SendMessageResult = { sessionId: payload.sessionId || "", content: "", sources: [] };
+
+  for await (const frame of readEventStream(response.body!)) {
+    if (frame.error) {
+      throw new ApiError(frame.error);
+    }
+    if (frame.content) {
+      result.content += frame.content;
+      onToken(frame.content);
+    }
+    if (frame.done) {
+      result.sources = frame.sources || [];
+      result.sessionId = frame.sessionId || result.sessionId;
+      result.userMessageId = frame.userMessageId;
+      result.messageId = frame.messageId;
+      break;
+    }
+  }
+
+  return result;
+};
+
+export const sendChatMessage = ({ sessionId, message, filter, ...callbacks }: SendMessageParams) =>
+  streamAnswer("/api/chat/send", { sessionId, message, filter }, callbacks);
+
+/** Answers the session's last question again, keeping the earlier answers as alternatives. */
+export const regenerateAnswer = ({ sessionId, provider, temperature, ...callbacks }: RegenerateParams) =>
+  streamAnswer("/api/chat/regenerate", { sessionId, provider, temperature }, callbacks);
+
+/** Adds an edited version of a question next to the original and answers it. */
+export const editMessage = ({ sessionId, messageId, message, ...callbacks }: EditMessageParams) =>
+  streamAnswer("/api/chat/edit", { sessionId, messageId, message }, callbacks);
+
+export const listSessions = async (): Promise<ChatSession[]> => {
+  const { sessions } = await requestJson<{ sessions: ChatSession[] }>("/api/chat/sessions");
+  return sessions;
+};
+
+export const getChatHistory = async (sessionId: string): Promise<HistoryMessage[]> => {
+  const { messages } = await requestJson<{ messages: HistoryMessage[] }>(
+    `/api/chat/history?sessionId=${encodeURIComponent(sessionId)}`
+  );
+  return messages;
+};
+
+/** Switches the session to the newest branch through a message and returns that branch. */
+export const switchBranch = async (sessionId: string, messageId: string): Promise<HistoryMessage[]> => {
+  const { messages } = await requestJson<{ messages: HistoryMessage[] }>(
+    `/api/chat/sessions/${encodeURIComponent(sessionId)}/branch`,
+    { method: "POST", body: JSON.stringify({ messageId }) }
+  );
+  return messages;
+};
+
+export const renameSession = (sessionId: string, title: string): Promise<ChatSession> =>
+  requestJson<ChatSession>(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, {
+    method: "PATCH",
+    body: JSON.stringify({ title }),
+  });
+
+export const deleteSession = (sessionId: string): Promise<unknown> =>
+  requestJson(`/api/chat/sessions/${encodeURIComponent(sessionId)}`, { method: "DELETE" });
+
+export const sendFeedback = (params: {
+  sessionId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  reason?: string;
+  category?: FeedbackCategory;
+}): Promise<unknown> =>
+  requestJson("/api/chat/feedback", {
+    method: "POST",
+    body: JSON.stringify(params),
+  });
+
+export const getIngestionJob = (jobId: string): Promise<IngestJob> =>
+  requestJson<IngestJob>(`/api/ingest/${encodeURIComponent(jobId)}`);
+
+/**
+ * Starts a background ingestion job. If one is already running, that job is
+ * returned instead so the caller can follow it.
+ */
+export const startIngestion = async (maxArticles?: number): Promise<IngestJob> => {
+  try {
+    const { jobId } = await requestJson<{ jobId: string }>("/api/ingest", {
+      method: "POST",
+      body: JSON.stringify({ maxArticles }),
+    });
+    return getIngestionJob(jobId);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 409 && typeof error.body?.jobId === "string") {
+      return getIngestionJob(error.body.jobId);
+    }
+    throw error;
+  }
+};
+
+export const cancelIngestion = (jobId: string): Promise<unknown> =>
+  requestJson(`/api/ingest/${encodeURIComponent(jobId)}`, { method: "DELETE" });
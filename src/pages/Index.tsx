@@ -1,7 +1,16 @@
 import { ChatInterface } from "@/components/ChatInterface";
+import { ChatSidebar } from "@/components/ChatSidebar";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
 
 const Index = () => {
-  return <ChatInterface />;
+  return (
+    <SidebarProvider>
+      <ChatSidebar />
+      <SidebarInset>
+        <ChatInterface />
+      </SidebarInset>
+    </SidebarProvider>
+  );
 };
 
 export default Index;